@@ -0,0 +1,207 @@
+import type { DetourMeshTile, DetourPoly, NavMesh, QueryFilter } from "recast-navigation";
+import { Detour } from "recast-navigation";
+import type { Nullable } from "@babylonjs/core/types";
+import { passFilter } from "./RecastNavigationJSPolyQueries";
+
+/**
+ * Polygons of a navmesh that can all reach each other
+ */
+export interface INavMeshIslandData {
+  /**
+   * references of the polygons of the island, off-mesh connections included
+   */
+  polyRefs: number[];
+  /**
+   * walkable surface of the island, on the XZ plane
+   */
+  area: number;
+  /**
+   * islands reachable from this one in a single step, through a one way off-mesh connection
+   */
+  exits: number[];
+}
+
+// DT_POLYTYPE_OFFMESH_CONNECTION, not exposed by recast-navigation
+const offMeshConnectionPolyType = 1;
+
+const polygonArea2D = (tile: DetourMeshTile, poly: DetourPoly): number => {
+  let area = 0;
+  const x0 = tile.verts(poly.verts(0) * 3);
+  const z0 = tile.verts(poly.verts(0) * 3 + 2);
+  for (let i = 2; i < poly.vertCount(); i++) {
+    const a = poly.verts(i - 1) * 3;
+    const b = poly.verts(i) * 3;
+    area += Math.abs((tile.verts(b) - x0) * (tile.verts(a + 2) - z0) - (tile.verts(a) - x0) * (tile.verts(b + 2) - z0)) * 0.5;
+  }
+  return area;
+};
+
+/**
+ * Directed graph of the navmesh polygons accepted by a filter
+ */
+export class NavMeshPolyGraph {
+  /**
+   * references of the polygons
+   */
+  public readonly polyRefs: number[] = [];
+  /**
+   * walkable surface of each polygon, 0 for off-mesh connections
+   */
+  public readonly areas: number[] = [];
+  /**
+   * indices of the polygons each polygon leads to
+   */
+  public readonly neighbours: number[][] = [];
+
+  private _indices = new Map<number, number>();
+
+  /**
+   * Reads the polygons and their links from the navmesh tiles
+   * @param navMesh the navmesh
+   * @param filter polygons rejected by the filter are left out, only the polygons without flags when null
+   */
+  public constructor(navMesh: NavMesh, filter: Nullable<QueryFilter>) {
+    const links: number[][] = [];
+    for (let tileIndex = 0; tileIndex < navMesh.getMaxTiles(); tileIndex++) {
+      const tile = navMesh.getTile(tileIndex);
+      const header = tile.header();
+      if (!header) {
+        continue;
+      }
+      // the polygon index is in the low bits of the reference, added since the salt can use the sign bit
+      const base = navMesh.getPolyRefBase(tile);
+      for (let i = 0; i < header.polyCount(); i++) {
+        const poly = tile.polys(i);
+        if (filter ? !passFilter(filter, poly) : poly.flags() === 0) {
+          continue;
+        }
+        this._indices.set(base + i, this.polyRefs.length);
+        this.polyRefs.push(base + i);
+        this.areas.push(poly.getType() === offMeshConnectionPolyType ? 0 : polygonArea2D(tile, poly));
+        const polyLinks: number[] = [];
+        for (let link = poly.firstLink(); link !== Detour.DT_NULL_LINK; link = tile.links(link).next()) {
+          polyLinks.push(tile.links(link).ref());
+        }
+        links.push(polyLinks);
+      }
+    }
+
+    for (const polyLinks of links) {
+      const neighbours: number[] = [];
+      for (const ref of polyLinks) {
+        const index = this._indices.get(ref);
+        if (index !== undefined) {
+          neighbours.push(index);
+        }
+      }
+      this.neighbours.push(neighbours);
+    }
+  }
+
+  /**
+   * Gets the index of a polygon
+   * @param polyRef polygon reference
+   * @returns the index, -1 if the polygon is not in the graph
+   */
+  public indexOf (polyRef: number): number {
+    return this._indices.get(polyRef) ?? -1;
+  }
+
+  /**
+   * Finds the polygons reachable from a set of polygons
+   * @param starts indices of the start polygons
+   * @returns true for each reachable polygon index
+   */
+  public flood (starts: number[]): boolean[] {
+    const reached = new Array<boolean>(this.polyRefs.length).fill(false);
+    const stack: number[] = [];
+    for (const start of starts) {
+      if (!reached[start]) {
+        reached[start] = true;
+        stack.push(start);
+      }
+    }
+    while (stack.length > 0) {
+      for (const neighbour of this.neighbours[stack.pop()!]) {
+        if (!reached[neighbour]) {
+          reached[neighbour] = true;
+          stack.push(neighbour);
+        }
+      }
+    }
+    return reached;
+  }
+
+  /**
+   * Splits the polygons into islands, the strongly connected components of the graph, with Tarjan algorithm.
+   * Islands joined by two way links merge, a one way off-mesh connection becomes an exit from an island to another
+   * @returns the island of each polygon index and the islands
+   */
+  public computeIslands (): { islandOf: number[]; islands: INavMeshIslandData[] } {
+    const count = this.polyRefs.length;
+    const order = new Array<number>(count).fill(-1);
+    const lowLink = new Array<number>(count).fill(0);
+    const onStack = new Array<boolean>(count).fill(false);
+    const islandOf = new Array<number>(count).fill(-1);
+    const islands: INavMeshIslandData[] = [];
+    const stack: number[] = [];
+    let nextOrder = 0;
+
+    // iterative depth first search, a large navmesh would overflow the call stack
+    for (let root = 0; root < count; root++) {
+      if (order[root] !== -1) {
+        continue;
+      }
+      const path: Array<{ node: number; next: number }> = [{ node: root, next: 0 }];
+      order[root] = lowLink[root] = nextOrder++;
+      stack.push(root);
+      onStack[root] = true;
+
+      while (path.length > 0) {
+        const frame = path[path.length - 1];
+        const neighbours = this.neighbours[frame.node];
+        if (frame.next < neighbours.length) {
+          const neighbour = neighbours[frame.next++];
+          if (order[neighbour] === -1) {
+            order[neighbour] = lowLink[neighbour] = nextOrder++;
+            stack.push(neighbour);
+            onStack[neighbour] = true;
+            path.push({ node: neighbour, next: 0 });
+          } else if (onStack[neighbour]) {
+            lowLink[frame.node] = Math.min(lowLink[frame.node], order[neighbour]);
+          }
+          continue;
+        }
+
+        path.pop();
+        if (path.length > 0) {
+          const parent = path[path.length - 1].node;
+          lowLink[parent] = Math.min(lowLink[parent], lowLink[frame.node]);
+        }
+        if (lowLink[frame.node] === order[frame.node]) {
+          const island: INavMeshIslandData = { polyRefs: [], area: 0, exits: [] };
+          let node: number;
+          do {
+            node = stack.pop()!;
+            onStack[node] = false;
+            islandOf[node] = islands.length;
+            island.polyRefs.push(this.polyRefs[node]);
+            island.area += this.areas[node];
+          } while (node !== frame.node);
+          islands.push(island);
+        }
+      }
+    }
+
+    for (let node = 0; node < count; node++) {
+      const exits = islands[islandOf[node]].exits;
+      for (const neighbour of this.neighbours[node]) {
+        const island = islandOf[neighbour];
+        if (island !== islandOf[node] && exits.indexOf(island) === -1) {
+          exits.push(island);
+        }
+      }
+    }
+    return { islandOf, islands };
+  }
+}
@@ -0,0 +1,81 @@
+import type { Crowd, Vector3 as Vector3Like } from "recast-navigation";
+import { Raw } from "recast-navigation";
+
+/**
+ * Path corridor a Detour crowd agent steers along
+ */
+export interface ICrowdAgentCorridor {
+  /**
+   * start of the corridor, the agent position on the navmesh
+   */
+  position: Vector3Like;
+  /**
+   * end of the corridor, on its last polygon. Short of the agent target when the path is partial
+   */
+  target: Vector3Like;
+  /**
+   * polygons from the agent polygon to the last polygon of the corridor
+   */
+  polys: number[];
+}
+
+// wasm32 layout of the Detour crowd structures, checked against the pointers of the running build.
+// recast-navigation does not expose the corridor of an agent
+const crowdMaxAgentsOffset = 0;
+const crowdAgentsOffset = 4;
+const agentSize = 608;
+const agentCorridorOffset = 4;
+const agentParamsOffset = 468;
+const corridorPositionOffset = agentCorridorOffset;
+const corridorTargetOffset = agentCorridorOffset + 12;
+const corridorPathOffset = agentCorridorOffset + 24;
+const corridorPathCountOffset = agentCorridorOffset + 28;
+
+// crowds whose memory layout matched, checked once per crowd
+const checkedCrowds = new WeakSet<Crowd>();
+
+const checkCrowdMemory = (crowd: Crowd, agents: number): boolean => {
+  const module = Raw.Module;
+  const maxAgents = crowd.raw.getAgentCount();
+  const firstAgent = crowd.raw.getAgent(0);
+  const firstAgentPointer = module.getPointer(firstAgent);
+  return module.HEAPU32[(module.getPointer(crowd.raw) + crowdMaxAgentsOffset) >> 2] === maxAgents &&
+    agents === firstAgentPointer &&
+    (maxAgents === 1 || module.getPointer(crowd.raw.getAgent(1)) - firstAgentPointer === agentSize) &&
+    module.getPointer(firstAgent.get_corridor()) === firstAgentPointer + agentCorridorOffset &&
+    module.getPointer(firstAgent.get_params()) === firstAgentPointer + agentParamsOffset;
+};
+
+const getAgentMemory = (crowd: Crowd, agentIndex: number): number => {
+  const module = Raw.Module;
+  const agents = module.HEAPU32[(module.getPointer(crowd.raw) + crowdAgentsOffset) >> 2];
+  if (!checkedCrowds.has(crowd)) {
+    if (!checkCrowdMemory(crowd, agents)) {
+      throw new Error("Unable to access the crowd agents: the Detour memory layout of this recast-navigation build is not supported.");
+    }
+    checkedCrowds.add(crowd);
+  }
+  return agents + agentIndex * agentSize;
+};
+
+/**
+ * Reads the path corridor of a crowd agent
+ * @param crowd the crowd
+ * @param agentIndex index of an active agent
+ * @returns the agent corridor
+ */
+export const readCrowdAgentCorridor = (crowd: Crowd, agentIndex: number): ICrowdAgentCorridor => {
+  const agent = getAgentMemory(crowd, agentIndex);
+  // the heap views are replaced when the wasm memory grows
+  const heap32 = Raw.Module.HEAPU32;
+  const heapF32 = Raw.Module.HEAPF32;
+  const position = (agent + corridorPositionOffset) >> 2;
+  const target = (agent + corridorTargetOffset) >> 2;
+  const path = heap32[(agent + corridorPathOffset) >> 2] >> 2;
+  const pathCount = heap32[(agent + corridorPathCountOffset) >> 2];
+  return {
+    position: { x: heapF32[position], y: heapF32[position + 1], z: heapF32[position + 2] },
+    target: { x: heapF32[target], y: heapF32[target + 1], z: heapF32[target + 2] },
+    polys: Array.from(heap32.subarray(path, path + pathCount)),
+  };
+};
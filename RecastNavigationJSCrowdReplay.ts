@@ -0,0 +1,552 @@
+import type { Observable } from "@babylonjs/core/Misc/observable";
+import { Vector3 } from "@babylonjs/core/Maths/math";
+import type { Nullable } from "@babylonjs/core/types";
+import type { Vector3Tuple } from "recast-navigation";
+import type { ICrowdSimulationState, INavMeshQueryFilterOptions, IRecastAgentParameters, RecastJSCrowdSimulation } from "./RecastNavigationJSPlugin";
+
+/**
+ * addAgent call
+ */
+export interface ICrowdAddAgentCommand {
+  /**
+   * command type
+   */
+  type: "addAgent";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * world position given to addAgent
+   */
+  position: Vector3Tuple;
+  /**
+   * agent parameters
+   */
+  parameters: IRecastAgentParameters;
+}
+
+/**
+ * removeAgent call
+ */
+export interface ICrowdRemoveAgentCommand {
+  /**
+   * command type
+   */
+  type: "removeAgent";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+}
+
+/**
+ * agentGoto call
+ */
+export interface ICrowdAgentGotoCommand {
+  /**
+   * command type
+   */
+  type: "agentGoto";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * targeted world position
+   */
+  destination: Vector3Tuple;
+}
+
+/**
+ * agentGotoSequence call
+ */
+export interface ICrowdAgentGotoSequenceCommand {
+  /**
+   * command type
+   */
+  type: "agentGotoSequence";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * world positions of the waypoints
+   */
+  points: Vector3Tuple[];
+  /**
+   * true when the agent goes back to the first waypoint after the last one
+   */
+  loop: boolean;
+}
+
+/**
+ * agentTeleport call
+ */
+export interface ICrowdAgentTeleportCommand {
+  /**
+   * command type
+   */
+  type: "agentTeleport";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * targeted world position
+   */
+  destination: Vector3Tuple;
+}
+
+/**
+ * updateAgentParameters call
+ */
+export interface ICrowdUpdateAgentParametersCommand {
+  /**
+   * command type
+   */
+  type: "updateAgentParameters";
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * the changed agent parameters
+   */
+  parameters: Partial<IRecastAgentParameters>;
+}
+
+/**
+ * setFilter call
+ */
+export interface ICrowdSetFilterCommand {
+  /**
+   * command type
+   */
+  type: "setFilter";
+  /**
+   * index of the filter
+   */
+  queryFilterType: number;
+  /**
+   * included and excluded polygon flags and area costs
+   */
+  options: INavMeshQueryFilterOptions;
+}
+
+/**
+ * restore call
+ */
+export interface ICrowdRestoreCommand {
+  /**
+   * command type
+   */
+  type: "restore";
+  /**
+   * the restored state
+   */
+  state: ICrowdSimulationState;
+}
+
+/**
+ * update call
+ */
+export interface ICrowdUpdateCommand {
+  /**
+   * command type
+   */
+  type: "update";
+  /**
+   * time given to update, in seconds
+   */
+  deltaTime: number;
+}
+
+/**
+ * Call changing a crowd simulation, see RecastJSCrowdSimulation.onCommandObservable
+ */
+export type CrowdCommand =
+  | ICrowdAddAgentCommand
+  | ICrowdRemoveAgentCommand
+  | ICrowdAgentGotoCommand
+  | ICrowdAgentGotoSequenceCommand
+  | ICrowdAgentTeleportCommand
+  | ICrowdUpdateAgentParametersCommand
+  | ICrowdSetFilterCommand
+  | ICrowdRestoreCommand
+  | ICrowdUpdateCommand;
+
+/**
+ * Crowd update recorded by RecastJSCrowdRecorder
+ */
+export interface ICrowdRecordingFrame {
+  /**
+   * commands given since the previous update
+   */
+  commands: CrowdCommand[];
+  /**
+   * time given to update, in seconds
+   */
+  deltaTime: number;
+  /**
+   * commands given by the crowd observers during the update, after the given count of crowd events
+   */
+  eventCommands: Array<{ event: number; command: CrowdCommand }>;
+  /**
+   * agent positions after the update, 3 values per agent in the order of the crowd agents
+   */
+  positions: number[];
+}
+
+/**
+ * Calls made on a crowd simulation, replayed by RecastJSCrowdReplayer. The recording is JSON serializable
+ */
+export interface ICrowdRecording {
+  /**
+   * state of the crowd when the recording started
+   */
+  initialState: ICrowdSimulationState;
+  /**
+   * plugin time step during the recording, see RecastNavigationJSPlugin.setTimeStep
+   */
+  timeStep: number;
+  /**
+   * plugin maximum sub step count during the recording, see RecastNavigationJSPlugin.setMaximumSubStepCount
+   */
+  maximumSubStepCount: number;
+  /**
+   * the updates
+   */
+  frames: ICrowdRecordingFrame[];
+  /**
+   * commands given after the last update
+   */
+  commands: CrowdCommand[];
+}
+
+/**
+ * First difference between a recording and its replay
+ */
+export interface ICrowdDivergence {
+  /**
+   * index of the frame in the recording
+   */
+  frame: number;
+  /**
+   * agent whose position drifted, -1 when the replayed crowd does not have the same agents
+   */
+  agentIndex: number;
+  /**
+   * recorded position of the agent, null when the replayed crowd does not have the same agents
+   */
+  recordedPosition: Nullable<Vector3>;
+  /**
+   * replayed position of the agent, null when the replayed crowd does not have the same agents
+   */
+  replayedPosition: Nullable<Vector3>;
+  /**
+   * distance between the recorded and the replayed positions
+   */
+  distance: number;
+}
+
+/**
+ * Makes a call recorded in a crowd command
+ * @param crowd the crowd
+ * @param command the command
+ */
+export const applyCrowdCommand = (crowd: RecastJSCrowdSimulation, command: CrowdCommand): void => {
+  switch (command.type) {
+    case "addAgent": {
+      const agentIndex = crowd.addAgent(Vector3.FromArray(command.position), command.parameters);
+      if (agentIndex !== command.agentIndex) {
+        throw new Error(`Unable to replay the crowd: agent ${command.agentIndex} was added with index ${agentIndex}.`);
+      }
+      break;
+    }
+    case "removeAgent":
+      crowd.removeAgent(command.agentIndex);
+      break;
+    case "agentGoto":
+      crowd.agentGoto(command.agentIndex, Vector3.FromArray(command.destination));
+      break;
+    case "agentGotoSequence":
+      crowd.agentGotoSequence(command.agentIndex, command.points.map((point) => Vector3.FromArray(point)), command.loop);
+      break;
+    case "agentTeleport":
+      crowd.agentTeleport(command.agentIndex, Vector3.FromArray(command.destination));
+      break;
+    case "updateAgentParameters":
+      crowd.updateAgentParameters(command.agentIndex, command.parameters);
+      break;
+    case "setFilter":
+      crowd.setFilter(command.queryFilterType, command.options);
+      break;
+    case "restore":
+      crowd.restore(command.state);
+      break;
+    case "update":
+      crowd.update(command.deltaTime);
+      break;
+  }
+};
+
+/**
+ * Adds an observer and keeps how to remove it
+ * @param unwatchers removals of the observers added so far
+ * @param observable the observable
+ * @param callback the observer callback
+ * @param insertFirst whether the observer is called before the existing ones
+ */
+const watchCrowdObservable = <T>(unwatchers: Array<() => void>, observable: Observable<T>, callback: (data: T) => void, insertFirst = false): void => {
+  const observer = observable.add(callback, undefined, insertFirst);
+  unwatchers.push(() => observable.remove(observer));
+};
+
+/**
+ * Removes the observers added with watchCrowdObservable
+ * @param unwatchers removals of the observers added so far
+ */
+const unwatchCrowdObservables = (unwatchers: Array<() => void>): void => {
+  for (const unwatch of unwatchers) {
+    unwatch();
+  }
+  unwatchers.length = 0;
+};
+
+/**
+ * Adds the same observer to every crowd event, before the existing observers
+ * @param unwatchers removals of the observers added so far
+ * @param crowd the crowd
+ * @param callback called on each event, the event data is not read
+ */
+const watchCrowdEvents = (unwatchers: Array<() => void>, crowd: RecastJSCrowdSimulation, callback: () => void): void => {
+  watchCrowdObservable(unwatchers, crowd.onReachTargetObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentSequenceCompletedObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onOffMeshConnectionStartObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onOffMeshConnectionEndObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentStateChangedObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentStuckObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentPathComputedObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentPathFailedObservable, callback, true);
+  watchCrowdObservable(unwatchers, crowd.onAgentPartialPathObservable, callback, true);
+};
+
+/**
+ * Records the calls made on a crowd simulation and the agent positions after each update.
+ * The crowd is restored from its own snapshot when the recording starts, so the replay starts from the same state.
+ * The navmesh and its obstacles are not recorded, they must be the same when replaying
+ */
+export class RecastJSCrowdRecorder {
+  private _recording: ICrowdRecording;
+  private _frame: Nullable<ICrowdRecordingFrame> = null;
+  private _eventCount = 0;
+  private _unwatchers: Array<() => void> = [];
+
+  /**
+   * Starts recording
+   * @param _crowd the crowd to record, from its current state
+   */
+  public constructor(private _crowd: RecastJSCrowdSimulation) {
+    const plugin = _crowd.bjsRECASTPlugin;
+    const initialState = _crowd.snapshot();
+    // the snapshot does not hold the corridors, they are searched again like on replay
+    _crowd.restore(initialState);
+    this._recording = {
+      initialState,
+      timeStep: plugin.getTimeStep(),
+      maximumSubStepCount: plugin.getMaximumSubStepCount(),
+      frames: [],
+      commands: [],
+    };
+
+    watchCrowdObservable(this._unwatchers, _crowd.onCommandObservable, (command) => this._onCommand(command));
+    watchCrowdObservable(this._unwatchers, _crowd.onAfterUpdateObservable, () => this._onAfterUpdate());
+    // counted before the observers giving commands
+    watchCrowdEvents(this._unwatchers, _crowd, () => this._eventCount++);
+  }
+
+  /**
+   * Gets the recording, it keeps growing until the recorder is disposed
+   * @returns the recording
+   */
+  public getRecording (): ICrowdRecording {
+    return this._recording;
+  }
+
+  /**
+   * Stops recording
+   */
+  public dispose (): void {
+    unwatchCrowdObservables(this._unwatchers);
+    this._frame = null;
+  }
+
+  private _onCommand (command: CrowdCommand): void {
+    if (command.type === "update") {
+      this._frame = { commands: this._recording.commands, deltaTime: command.deltaTime, eventCommands: [], positions: [] };
+      this._recording.commands = [];
+      this._eventCount = 0;
+    } else if (this._frame) {
+      this._frame.eventCommands.push({ event: this._eventCount, command });
+    } else {
+      this._recording.commands.push(command);
+    }
+  }
+
+  private _onAfterUpdate (): void {
+    const frame = this._frame;
+    if (!frame) {
+      return;
+    }
+    for (const agentIndex of this._crowd.agents) {
+      for (let i = 0; i < 3; i++) {
+        frame.positions.push(this._crowd.agentPositions[agentIndex * 3 + i]);
+      }
+    }
+    this._recording.frames.push(frame);
+    this._frame = null;
+  }
+}
+
+/**
+ * Replays a recording on a crowd simulation and reports the first frame where the agent positions drift.
+ * The replay is bit for bit with the same recast-navigation build, the same navmesh and the same plugin time step
+ */
+export class RecastJSCrowdReplayer {
+  /**
+   * distance a replayed position can drift from the recorded one without divergence. Default is 0, bit for bit
+   */
+  public tolerance = 0;
+
+  private _frameIndex = 0;
+  private _frame: Nullable<ICrowdRecordingFrame> = null;
+  private _eventCommandIndex = 0;
+  private _eventCount = 0;
+  private _unwatchers: Array<() => void> = [];
+
+  /**
+   * Restores the initial state of the recording on the crowd
+   * @param _crowd crowd created on the profile and with the maximum agent count of the recorded one
+   * @param _recording recording made by RecastJSCrowdRecorder
+   */
+  public constructor(private _crowd: RecastJSCrowdSimulation, private _recording: ICrowdRecording) {
+    watchCrowdObservable(this._unwatchers, _crowd.onCommandObservable, (command) => {
+      if (command.type === "update" && this._frame) {
+        this._applyEventCommands();
+      }
+    });
+    watchCrowdEvents(this._unwatchers, _crowd, () => {
+      if (this._frame) {
+        this._eventCount++;
+        this._applyEventCommands();
+      }
+    });
+    this.restart();
+  }
+
+  /**
+   * Gets the number of frames replayed
+   */
+  public get frame (): number {
+    return this._frameIndex;
+  }
+
+  /**
+   * Gets whether all the frames are replayed
+   */
+  public get done (): boolean {
+    return this._frameIndex >= this._recording.frames.length;
+  }
+
+  /**
+   * Restores the initial state of the recording to replay it from the start
+   */
+  public restart (): void {
+    const plugin = this._crowd.bjsRECASTPlugin;
+    if (plugin.getTimeStep() !== this._recording.timeStep || plugin.getMaximumSubStepCount() !== this._recording.maximumSubStepCount) {
+      throw new Error(`Unable to replay the crowd: the plugin time step is ${plugin.getTimeStep()} with ${plugin.getMaximumSubStepCount()} sub steps, the recording was made with ${this._recording.timeStep} and ${this._recording.maximumSubStepCount}.`);
+    }
+    this._crowd.restore(this._recording.initialState);
+    this._frameIndex = 0;
+  }
+
+  /**
+   * Replays the commands and the update of the next frame
+   * @returns the divergence, null when the agent positions match the recording
+   */
+  public step (): Nullable<ICrowdDivergence> {
+    const frames = this._recording.frames;
+    if (this._frameIndex >= frames.length) {
+      return null;
+    }
+    const frame = frames[this._frameIndex];
+    for (const command of frame.commands) {
+      applyCrowdCommand(this._crowd, command);
+    }
+
+    this._frame = frame;
+    this._eventCommandIndex = 0;
+    this._eventCount = 0;
+    this._crowd.update(frame.deltaTime);
+    this._frame = null;
+    // the replay raised fewer events, the commands are still given
+    for (let i = this._eventCommandIndex; i < frame.eventCommands.length; i++) {
+      applyCrowdCommand(this._crowd, frame.eventCommands[i].command);
+    }
+
+    const divergence = this._compare(frame);
+    this._frameIndex++;
+    if (this._frameIndex === frames.length) {
+      for (const command of this._recording.commands) {
+        applyCrowdCommand(this._crowd, command);
+      }
+    }
+    return divergence;
+  }
+
+  /**
+   * Replays the frames left, until the agent positions drift
+   * @returns the first divergence, null when the whole recording is replayed without drift
+   */
+  public run (): Nullable<ICrowdDivergence> {
+    while (!this.done) {
+      const divergence = this.step();
+      if (divergence) {
+        return divergence;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Stops listening to the crowd
+   */
+  public dispose (): void {
+    unwatchCrowdObservables(this._unwatchers);
+  }
+
+  private _applyEventCommands (): void {
+    const eventCommands = this._frame!.eventCommands;
+    while (this._eventCommandIndex < eventCommands.length && eventCommands[this._eventCommandIndex].event <= this._eventCount) {
+      applyCrowdCommand(this._crowd, eventCommands[this._eventCommandIndex++].command);
+    }
+  }
+
+  private _compare (frame: ICrowdRecordingFrame): Nullable<ICrowdDivergence> {
+    const agents = this._crowd.agents;
+    const positions = this._crowd.agentPositions;
+    if (agents.length * 3 !== frame.positions.length) {
+      return { frame: this._frameIndex, agentIndex: -1, recordedPosition: null, replayedPosition: null, distance: Infinity };
+    }
+    for (let item = 0; item < agents.length; item++) {
+      const recordedPosition = Vector3.FromArray(frame.positions, item * 3);
+      const replayedPosition = Vector3.FromArray(positions, agents[item] * 3);
+      const distance = Vector3.Distance(recordedPosition, replayedPosition);
+      if (!(distance <= this.tolerance)) {
+        return { frame: this._frameIndex, agentIndex: agents[item], recordedPosition, replayedPosition, distance };
+      }
+    }
+    return null;
+  }
+}
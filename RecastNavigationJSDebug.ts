@@ -0,0 +1,648 @@
+import type { Scene } from "@babylonjs/core/scene";
+import type { Observer } from "@babylonjs/core/Misc/observable";
+import type { Nullable } from "@babylonjs/core/types";
+import { Color3, Vector3 } from "@babylonjs/core/Maths/math";
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { LinesMesh } from "@babylonjs/core/Meshes/linesMesh";
+import { VertexData } from "@babylonjs/core/Meshes/mesh.vertexData";
+import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import { VertexBuffer } from "@babylonjs/core/Buffers/buffer";
+import type { DetourMeshTile, DetourPoly, NavMesh } from "recast-navigation";
+import { Detour } from "recast-navigation";
+import type { INavMeshChangedEvent, RecastJSCrowdSimulation } from "./RecastNavigationJSPlugin";
+import { RecastJSBoxObstacle, RecastJSCylinderObstacle, RecastNavigationJSPlugin } from "./RecastNavigationJSPlugin";
+
+/**
+ * Overlays drawn by RecastNavigationJSDebugDrawer.
+ * "polygons", "polygonEdges", "tileBoundaries", "offMeshConnections" and "convexVolumes" show the navmesh and are rebuilt when it changes,
+ * "obstacles", "agents" and "path" are updated on each frame, "corridors" when the target or the corridor of an agent changes
+ */
+export type NavigationDebugOverlay = "polygons" | "polygonEdges" | "tileBoundaries" | "offMeshConnections" | "convexVolumes" | "obstacles" | "agents" | "corridors" | "path";
+
+/**
+ * How the polygons overlay is colored. Detour does not keep the Recast regions, "polygon" gives each polygon its own color
+ */
+export type NavigationDebugPolygonColor = "area" | "tile" | "polygon";
+
+/**
+ * Options of RecastNavigationJSDebugDrawer
+ */
+export interface INavigationDebugOptions {
+  /**
+   * navmesh profile drawn by the navmesh overlays. Default is the default profile
+   */
+  profile?: string;
+  /**
+   * overlays enabled at creation. Default is every overlay but "tileBoundaries" and "corridors"
+   */
+  overlays?: NavigationDebugOverlay[];
+  /**
+   * how the polygons overlay is colored. Default is "area"
+   */
+  polygonColor?: NavigationDebugPolygonColor;
+  /**
+   * distance the overlays are lifted above the navmesh to avoid z-fighting. Default is 0.05
+   */
+  heightOffset?: number;
+  /**
+   * opacity of the polygons overlay. Default is 0.4
+   */
+  alpha?: number;
+}
+
+const navMeshOverlays: NavigationDebugOverlay[] = ["polygons", "polygonEdges", "tileBoundaries", "offMeshConnections", "convexVolumes"];
+const circleSegments = 16;
+const arcSegments = 8;
+// DT_POLYTYPE_OFFMESH_CONNECTION, not exposed by recast-navigation
+const offMeshConnectionPolyType = 1;
+
+/**
+ * Segments of a lines overlay, as flat position and color arrays reused from one frame to the next
+ */
+class DebugLines {
+  public positions: number[] = [];
+  public colors: number[] = [];
+
+  public clear (): void {
+    this.positions.length = 0;
+    this.colors.length = 0;
+  }
+
+  public segment (ax: number, ay: number, az: number, bx: number, by: number, bz: number, color: Color3): void {
+    this.positions.push(ax, ay, az, bx, by, bz);
+    this.colors.push(color.r, color.g, color.b, 1, color.r, color.g, color.b, 1);
+  }
+
+  public circle (x: number, y: number, z: number, radius: number, color: Color3): void {
+    for (let i = 0; i < circleSegments; i++) {
+      const a0 = (i / circleSegments) * Math.PI * 2;
+      const a1 = ((i + 1) / circleSegments) * Math.PI * 2;
+      this.segment(x + Math.cos(a0) * radius, y, z + Math.sin(a0) * radius, x + Math.cos(a1) * radius, y, z + Math.sin(a1) * radius, color);
+    }
+  }
+}
+
+/**
+ * Draws the navmesh, the obstacles, the crowd agents and a path of a RecastNavigationJSPlugin.
+ * Each overlay is a mesh parented to the root node, updated in place on each frame and toggled separately.
+ * The navmesh overlays are only rebuilt when the navmesh changes, so the drawer can stay enabled in development builds
+ */
+export class RecastNavigationJSDebugDrawer {
+  /**
+   * parent of the overlay meshes
+   */
+  public readonly root: TransformNode;
+
+  private _plugin: RecastNavigationJSPlugin;
+  private _scene: Scene;
+  private _profile: string | undefined;
+  private _polygonColor: NavigationDebugPolygonColor;
+  private _heightOffset: number;
+  private _material: StandardMaterial;
+  private _enabled: Set<NavigationDebugOverlay>;
+  private _meshes = new Map<NavigationDebugOverlay, Mesh>();
+  // the line meshes keep a reference to the arrays they were last updated with
+  private _lines = new Map<NavigationDebugOverlay, DebugLines>();
+  private _crowds: RecastJSCrowdSimulation[] = [];
+  private _path: Vector3[] = [];
+  private _drawnNavMesh: Nullable<NavMesh> = null;
+  private _navMeshDirty = true;
+  // target and corridor polygons of each agent when the corridors were drawn, compared on each frame
+  private _drawnCorridors: number[] = [];
+  private _corridors: number[] = [];
+  private _corridorsDirty = true;
+  private _onBeforeRenderObserver: Nullable<Observer<Scene>>;
+  private _onNavMeshChangedObserver: Nullable<Observer<INavMeshChangedEvent>>;
+  private _tempColor = new Color3();
+
+  private static readonly _WalkableColor = new Color3(0, 0.75, 1);
+  private static readonly _EdgeColor = new Color3(0, 0.2, 0.3);
+  private static readonly _BoundaryColor = new Color3(0, 0.1, 0.2);
+  private static readonly _TileColor = new Color3(0.5, 0.5, 0.5);
+  private static readonly _OffMeshColor = new Color3(1, 0.75, 0);
+  private static readonly _ObstacleColor = new Color3(1, 0.25, 0.25);
+  private static readonly _AgentColor = new Color3(0.25, 1, 0.25);
+  private static readonly _AgentOffMeshColor = new Color3(1, 0.75, 0);
+  private static readonly _AgentInvalidColor = new Color3(1, 0, 0);
+  private static readonly _VelocityColor = new Color3(1, 1, 1);
+  private static readonly _CornerColor = new Color3(0, 1, 1);
+  private static readonly _CorridorColor = new Color3(0.5, 0.25, 1);
+  private static readonly _PathColor = new Color3(1, 0, 1);
+
+  /**
+   * Creates the drawer and updates it before each render of the scene
+   * @param plugin the navigation plugin to draw
+   * @param scene scene of the overlay meshes
+   * @param options drawn profile, enabled overlays, polygon colors, height offset and opacity
+   */
+  public constructor(plugin: RecastNavigationJSPlugin, scene: Scene, options: INavigationDebugOptions = {}) {
+    const {
+      profile,
+      overlays = ["polygons", "polygonEdges", "offMeshConnections", "convexVolumes", "obstacles", "agents", "path"],
+      polygonColor = "area",
+      heightOffset = 0.05,
+      alpha = 0.4,
+    } = options;
+    this._plugin = plugin;
+    this._scene = scene;
+    this._profile = profile;
+    this._polygonColor = polygonColor;
+    this._heightOffset = heightOffset;
+    this._enabled = new Set(overlays);
+
+    this.root = new TransformNode("navigationDebug", scene);
+    this._material = new StandardMaterial("navigationDebug", scene);
+    this._material.disableLighting = true;
+    this._material.backFaceCulling = false;
+    this._material.alpha = alpha;
+
+    this._onNavMeshChangedObserver = plugin.onNavMeshChangedObservable.add(({ profile: changedProfile }) => {
+      if (changedProfile === null || changedProfile === (this._profile ?? RecastNavigationJSPlugin.DefaultProfile)) {
+        this._navMeshDirty = true;
+      }
+      // the crowds can move on any profile
+      this._corridorsDirty = true;
+    });
+    this._onBeforeRenderObserver = scene.onBeforeRenderObservable.add(() => {
+      this.update();
+    });
+  }
+
+  /**
+   * Shows or hides an overlay
+   * @param overlay the overlay
+   * @param enabled true to show the overlay
+   */
+  public setOverlayEnabled (overlay: NavigationDebugOverlay, enabled: boolean): void {
+    if (enabled) {
+      this._enabled.add(overlay);
+      this._navMeshDirty = this._navMeshDirty || navMeshOverlays.indexOf(overlay) !== -1;
+      this._corridorsDirty = this._corridorsDirty || overlay === "corridors";
+    } else {
+      this._enabled.delete(overlay);
+      this._meshes.get(overlay)?.setEnabled(false);
+    }
+  }
+
+  /**
+   * Gets whether an overlay is shown
+   * @param overlay the overlay
+   * @returns true if the overlay is shown
+   */
+  public isOverlayEnabled (overlay: NavigationDebugOverlay): boolean {
+    return this._enabled.has(overlay);
+  }
+
+  /**
+   * Gets the mesh of an overlay, a LinesMesh for every overlay but "polygons"
+   * @param overlay the overlay
+   * @returns the mesh, null until the overlay is drawn once
+   */
+  public getOverlayMesh (overlay: NavigationDebugOverlay): Nullable<Mesh> {
+    return this._meshes.get(overlay) ?? null;
+  }
+
+  /**
+   * Draws the agents of a crowd. Remove the crowd before disposing it
+   * @param crowd crowd created by the plugin
+   */
+  public addCrowd (crowd: RecastJSCrowdSimulation): void {
+    if (this._crowds.indexOf(crowd) === -1) {
+      this._crowds.push(crowd);
+    }
+  }
+
+  /**
+   * Stops drawing the agents of a crowd
+   * @param crowd crowd given to addCrowd
+   */
+  public removeCrowd (crowd: RecastJSCrowdSimulation): void {
+    const item = this._crowds.indexOf(crowd);
+    if (item > -1) {
+      this._crowds.splice(item, 1);
+    }
+  }
+
+  /**
+   * Sets the path drawn by the "path" overlay, for example the result of computePath
+   * @param path world positions, an empty array to clear the path
+   */
+  public setPath (path: Vector3[]): void {
+    this._path = path.map((point) => point.clone());
+  }
+
+  /**
+   * Rebuilds the navmesh overlays on the next update. The drawer notices the changes reported by onNavMeshChangedObservable by itself,
+   * call this after changing the polygons of the navmesh directly
+   */
+  public refreshNavMesh (): void {
+    this._navMeshDirty = true;
+  }
+
+  /**
+   * Updates the overlays. Called before each render of the scene
+   */
+  public update (): void {
+    const navMesh = this._plugin.navMesh ? this._plugin.getNavMesh(this._profile) : null;
+    if (navMesh !== this._drawnNavMesh) {
+      this._drawnNavMesh = navMesh;
+      this._navMeshDirty = true;
+    }
+    if (this._navMeshDirty && navMesh) {
+      this._navMeshDirty = false;
+      this._drawNavMesh(navMesh);
+    }
+
+    if (this._enabled.has("obstacles")) {
+      this._drawObstacles();
+    }
+    if (this._enabled.has("agents")) {
+      this._drawAgents();
+    }
+    if (this._enabled.has("corridors")) {
+      this._drawCorridors();
+    }
+    if (this._enabled.has("path")) {
+      this._drawPath();
+    }
+  }
+
+  /**
+   * Disposes the overlay meshes and stops updating them
+   */
+  public dispose (): void {
+    this._scene.onBeforeRenderObservable.remove(this._onBeforeRenderObserver);
+    this._plugin.onNavMeshChangedObservable.remove(this._onNavMeshChangedObserver);
+    this._onBeforeRenderObserver = null;
+    this._onNavMeshChangedObserver = null;
+    this.root.dispose();
+    this._material.dispose();
+    this._meshes.clear();
+    this._lines.clear();
+    this._crowds.length = 0;
+  }
+
+  private _drawNavMesh (navMesh: NavMesh): void {
+    const polygons = this._enabled.has("polygons");
+    const edges = this._enabled.has("polygonEdges");
+    const tiles = this._enabled.has("tileBoundaries");
+    const offMesh = this._enabled.has("offMeshConnections");
+    const offset = this._heightOffset;
+    const color = this._tempColor;
+
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const edgeLines = new DebugLines();
+    const tileLines = new DebugLines();
+    const offMeshLines = new DebugLines();
+
+    for (let tileIndex = 0; tileIndex < navMesh.getMaxTiles(); tileIndex++) {
+      const tile = navMesh.getTile(tileIndex);
+      const header = tile.header();
+      if (!header) {
+        continue;
+      }
+
+      if (tiles) {
+        const y = header.bmin(1) + offset;
+        const [x0, z0, x1, z1] = [header.bmin(0), header.bmin(2), header.bmax(0), header.bmax(2)];
+        const tileColor = RecastNavigationJSDebugDrawer._TileColor;
+        tileLines.segment(x0, y, z0, x1, y, z0, tileColor);
+        tileLines.segment(x1, y, z0, x1, y, z1, tileColor);
+        tileLines.segment(x1, y, z1, x0, y, z1, tileColor);
+        tileLines.segment(x0, y, z1, x0, y, z0, tileColor);
+      }
+
+      for (let polyIndex = 0; polyIndex < header.polyCount(); polyIndex++) {
+        const poly = tile.polys(polyIndex);
+        if (poly.getType() === offMeshConnectionPolyType) {
+          continue;
+        }
+
+        if (polygons) {
+          this._getPolygonColorToRef(poly, tileIndex, polyIndex, color);
+          const detail = tile.detailMeshes(polyIndex);
+          const vertBase = detail.vertBase();
+          const triBase = detail.triBase();
+          for (let triangle = 0; triangle < detail.triCount(); triangle++) {
+            // Recast winding is the opposite of Babylon one
+            for (const corner of [0, 2, 1]) {
+              const vertex = tile.detailTris((triBase + triangle) * 4 + corner);
+              for (let i = 0; i < 3; i++) {
+                positions.push(vertex < poly.vertCount() ? tile.verts(poly.verts(vertex) * 3 + i) : tile.detailVerts((vertBase + vertex - poly.vertCount()) * 3 + i));
+              }
+              positions[positions.length - 2] += offset;
+              colors.push(color.r, color.g, color.b, 1);
+            }
+          }
+        }
+
+        if (edges) {
+          for (let i = 0; i < poly.vertCount(); i++) {
+            // edges without neighbour are the navmesh boundaries
+            const edgeColor = poly.neis(i) === 0 ? RecastNavigationJSDebugDrawer._BoundaryColor : RecastNavigationJSDebugDrawer._EdgeColor;
+            RecastNavigationJSDebugDrawer._PolygonEdge(tile, poly, i, offset, edgeColor, edgeLines);
+          }
+        }
+      }
+
+      if (offMesh) {
+        for (let i = 0; i < header.offMeshConCount(); i++) {
+          const connection = tile.offMeshCons(i);
+          const start = new Vector3(connection.pos(0), connection.pos(1) + offset, connection.pos(2));
+          const end = new Vector3(connection.pos(3), connection.pos(4) + offset, connection.pos(5));
+          const bidirectional = (connection.flags() & Detour.DT_OFFMESH_CON_BIDIR) !== 0;
+          RecastNavigationJSDebugDrawer._OffMeshArc(start, end, connection.rad(), bidirectional, offMeshLines);
+        }
+      }
+    }
+
+    if (polygons) {
+      this._applyPolygons(positions, colors);
+    }
+    if (edges) {
+      this._applyLines("polygonEdges", edgeLines);
+    }
+    if (tiles) {
+      this._applyLines("tileBoundaries", tileLines);
+    }
+    if (offMesh) {
+      this._applyLines("offMeshConnections", offMeshLines);
+    }
+    if (this._enabled.has("convexVolumes")) {
+      this._drawConvexVolumes();
+    }
+  }
+
+  private _drawConvexVolumes (): void {
+    const lines = new DebugLines();
+    const color = this._tempColor;
+    for (const { shape, hmin, hmax, area } of this._plugin.getConvexVolumes()) {
+      const areaId = this._plugin.getAreaType(area)?.id ?? 0;
+      if (areaId === 0) {
+        color.copyFrom(RecastNavigationJSDebugDrawer._WalkableColor);
+      } else {
+        RecastNavigationJSDebugDrawer._IndexColorToRef(areaId, color);
+      }
+      for (let i = 0; i < shape.length; i++) {
+        const a = shape[i];
+        const b = shape[(i + 1) % shape.length];
+        lines.segment(a.x, hmin, a.z, b.x, hmin, b.z, color);
+        lines.segment(a.x, hmax, a.z, b.x, hmax, b.z, color);
+        lines.segment(a.x, hmin, a.z, a.x, hmax, a.z, color);
+      }
+    }
+    this._applyLines("convexVolumes", lines);
+  }
+
+  private _getPolygonColorToRef (poly: DetourPoly, tileIndex: number, polyIndex: number, result: Color3): void {
+    if (this._polygonColor === "tile") {
+      RecastNavigationJSDebugDrawer._IndexColorToRef(tileIndex, result);
+    } else if (this._polygonColor === "polygon") {
+      RecastNavigationJSDebugDrawer._IndexColorToRef(tileIndex * 7919 + polyIndex, result);
+    } else {
+      const area = poly.areaAndType() & 0x3f;
+      if (area === 0) {
+        result.copyFrom(RecastNavigationJSDebugDrawer._WalkableColor);
+      } else {
+        RecastNavigationJSDebugDrawer._IndexColorToRef(area, result);
+      }
+    }
+  }
+
+  private _drawObstacles (): void {
+    const lines = this._getLines("obstacles");
+    const color = RecastNavigationJSDebugDrawer._ObstacleColor;
+    for (const obstacle of this._plugin.getObstacles()) {
+      const { x, y, z } = obstacle.position;
+      if (obstacle instanceof RecastJSCylinderObstacle) {
+        lines.circle(x, y, z, obstacle.radius, color);
+        lines.circle(x, y + obstacle.height, z, obstacle.radius, color);
+        for (let i = 0; i < 4; i++) {
+          const angle = (i / 4) * Math.PI * 2;
+          const cx = x + Math.cos(angle) * obstacle.radius;
+          const cz = z + Math.sin(angle) * obstacle.radius;
+          lines.segment(cx, y, cz, cx, y + obstacle.height, cz, color);
+        }
+      } else if (obstacle instanceof RecastJSBoxObstacle) {
+        // the tile cache takes half extents, rotated around the Y axis
+        const { x: hx, y: hy, z: hz } = obstacle.extent;
+        const cos = Math.cos(obstacle.angle);
+        const sin = Math.sin(obstacle.angle);
+        const corner = (sx: number, sz: number): [number, number] => [x + sx * hx * cos + sz * hz * sin, z - sx * hx * sin + sz * hz * cos];
+        const corners = [corner(-1, -1), corner(1, -1), corner(1, 1), corner(-1, 1)];
+        for (let i = 0; i < 4; i++) {
+          const [ax, az] = corners[i];
+          const [bx, bz] = corners[(i + 1) % 4];
+          lines.segment(ax, y - hy, az, bx, y - hy, bz, color);
+          lines.segment(ax, y + hy, az, bx, y + hy, bz, color);
+          lines.segment(ax, y - hy, az, ax, y + hy, az, color);
+        }
+      }
+    }
+    this._applyLines("obstacles", lines);
+  }
+
+  private _drawAgents (): void {
+    const lines = this._getLines("agents");
+    const offset = this._heightOffset;
+    for (const crowd of this._crowds) {
+      for (const agentIndex of crowd.agents) {
+        const agent = crowd.recastCrowd.getAgent(agentIndex);
+        if (!agent) {
+          continue;
+        }
+        const raw = agent.raw;
+        const x = raw.get_npos(0);
+        const y = raw.get_npos(1) + offset;
+        const z = raw.get_npos(2);
+
+        const state = raw.state;
+        const stateColor = state === Detour.DT_CROWDAGENT_STATE_WALKING ? RecastNavigationJSDebugDrawer._AgentColor
+          : state === Detour.DT_CROWDAGENT_STATE_OFFMESH ? RecastNavigationJSDebugDrawer._AgentOffMeshColor : RecastNavigationJSDebugDrawer._AgentInvalidColor;
+        lines.circle(x, y, z, raw.params.radius, stateColor);
+        lines.segment(x, y, z, x + raw.get_vel(0), y + raw.get_vel(1), z + raw.get_vel(2), RecastNavigationJSDebugDrawer._VelocityColor);
+
+        let [px, py, pz] = [x, y, z];
+        for (let i = 0; i < raw.get_ncorners(); i++) {
+          const cx = raw.get_cornerVerts(i * 3);
+          const cy = raw.get_cornerVerts(i * 3 + 1) + offset;
+          const cz = raw.get_cornerVerts(i * 3 + 2);
+          lines.segment(px, py, pz, cx, cy, cz, RecastNavigationJSDebugDrawer._CornerColor);
+          [px, py, pz] = [cx, cy, cz];
+        }
+      }
+    }
+    this._applyLines("agents", lines);
+  }
+
+  /**
+   * Rebuilds the corridors overlay when the target or the corridor of an agent changed since the last frame
+   */
+  private _drawCorridors (): void {
+    const corridors = this._corridors;
+    corridors.length = 0;
+    for (const crowd of this._crowds) {
+      corridors.push(crowd.agents.length);
+      for (const agentIndex of crowd.agents) {
+        const polys = crowd.getAgentCorridor(agentIndex);
+        corridors.push(agentIndex, crowd.getAgentTargetPolygon(agentIndex), polys.length);
+        for (const polyRef of polys) {
+          corridors.push(polyRef);
+        }
+      }
+    }
+    const drawn = this._drawnCorridors;
+    if (!this._corridorsDirty && corridors.length === drawn.length && corridors.every((value, i) => value === drawn[i])) {
+      return;
+    }
+    this._corridorsDirty = false;
+    this._drawnCorridors = corridors;
+    this._corridors = drawn;
+
+    const lines = this._getLines("corridors");
+    let offset = 0;
+    for (const crowd of this._crowds) {
+      const navMesh = this._plugin.getNavMesh(crowd.profile);
+      const agentCount = corridors[offset++];
+      for (let agent = 0; agent < agentCount; agent++) {
+        // skip the agent index and target polygon
+        offset += 2;
+        const polyCount = corridors[offset++];
+        for (let i = 0; i < polyCount; i++) {
+          const { success, tile, poly } = navMesh.getTileAndPolyByRef(corridors[offset + i]);
+          if (!success) {
+            continue;
+          }
+          for (let edge = 0; edge < poly.vertCount(); edge++) {
+            RecastNavigationJSDebugDrawer._PolygonEdge(tile, poly, edge, this._heightOffset * 2, RecastNavigationJSDebugDrawer._CorridorColor, lines);
+          }
+        }
+        offset += polyCount;
+      }
+    }
+    this._applyLines("corridors", lines);
+  }
+
+  private _drawPath (): void {
+    const lines = this._getLines("path");
+    const offset = this._heightOffset * 2;
+    const color = RecastNavigationJSDebugDrawer._PathColor;
+    for (let i = 0; i < this._path.length; i++) {
+      const { x, y, z } = this._path[i];
+      lines.segment(x - 0.1, y + offset, z, x + 0.1, y + offset, z, color);
+      lines.segment(x, y + offset, z - 0.1, x, y + offset, z + 0.1, color);
+      if (i > 0) {
+        const previous = this._path[i - 1];
+        lines.segment(previous.x, previous.y + offset, previous.z, x, y + offset, z, color);
+      }
+    }
+    this._applyLines("path", lines);
+  }
+
+  /**
+   * Returns the cleared segments of a lines overlay
+   */
+  private _getLines (overlay: NavigationDebugOverlay): DebugLines {
+    let lines = this._lines.get(overlay);
+    if (!lines) {
+      lines = new DebugLines();
+      this._lines.set(overlay, lines);
+    }
+    lines.clear();
+    return lines;
+  }
+
+  private _applyPolygons (positions: number[], colors: number[]): void {
+    let mesh = this._meshes.get("polygons");
+    if (!mesh) {
+      mesh = new Mesh("navigationDebug_polygons", this._scene, this.root);
+      mesh.material = this._material;
+      mesh.isPickable = false;
+      this._meshes.set("polygons", mesh);
+    }
+    mesh.setEnabled(positions.length > 0);
+    if (positions.length === 0) {
+      return;
+    }
+    const vertexData = new VertexData();
+    vertexData.positions = positions;
+    vertexData.colors = colors;
+    vertexData.indices = RecastNavigationJSDebugDrawer._SequentialIndices(positions.length / 3);
+    vertexData.applyToMesh(mesh, false);
+  }
+
+  /**
+   * Updates the vertex buffers of a lines overlay in place when the vertex count is unchanged
+   */
+  private _applyLines (overlay: NavigationDebugOverlay, lines: DebugLines): void {
+    let mesh = this._meshes.get(overlay);
+    if (!mesh) {
+      mesh = new LinesMesh(`navigationDebug_${overlay}`, this._scene, this.root, null, false, true);
+      mesh.isPickable = false;
+      // the bounding box is not updated with the vertices
+      mesh.alwaysSelectAsActiveMesh = true;
+      this._meshes.set(overlay, mesh);
+    }
+
+    const vertexCount = lines.positions.length / 3;
+    mesh.setEnabled(vertexCount > 0);
+    if (vertexCount === 0) {
+      return;
+    }
+    if (vertexCount === mesh.getTotalVertices()) {
+      mesh.updateVerticesData(VertexBuffer.PositionKind, lines.positions);
+      mesh.updateVerticesData(VertexBuffer.ColorKind, lines.colors);
+    } else {
+      const vertexData = new VertexData();
+      vertexData.positions = lines.positions;
+      vertexData.colors = lines.colors;
+      vertexData.indices = RecastNavigationJSDebugDrawer._SequentialIndices(vertexCount);
+      vertexData.applyToMesh(mesh, true);
+    }
+  }
+
+  private static _SequentialIndices (count: number): number[] {
+    const indices = new Array<number>(count);
+    for (let i = 0; i < count; i++) {
+      indices[i] = i;
+    }
+    return indices;
+  }
+
+  private static _IndexColorToRef (index: number, result: Color3): void {
+    // golden angle hues keep neighbouring indices apart
+    Color3.HSVtoRGBToRef((index * 137.508) % 360, 0.6, 0.9, result);
+  }
+
+  private static _PolygonEdge (tile: DetourMeshTile, poly: DetourPoly, edge: number, offset: number, color: Color3, lines: DebugLines): void {
+    const a = poly.verts(edge) * 3;
+    const b = poly.verts((edge + 1) % poly.vertCount()) * 3;
+    lines.segment(tile.verts(a), tile.verts(a + 1) + offset, tile.verts(a + 2), tile.verts(b), tile.verts(b + 1) + offset, tile.verts(b + 2), color);
+  }
+
+  private static _OffMeshArc (start: Vector3, end: Vector3, radius: number, bidirectional: boolean, lines: DebugLines): void {
+    const color = RecastNavigationJSDebugDrawer._OffMeshColor;
+    const height = Vector3.Distance(start, end) * 0.25;
+    let previous = start;
+    for (let i = 1; i <= arcSegments; i++) {
+      const t = i / arcSegments;
+      const point = Vector3.Lerp(start, end, t);
+      point.y += height * 4 * t * (1 - t);
+      lines.segment(previous.x, previous.y, previous.z, point.x, point.y, point.z, color);
+      previous = point;
+    }
+    lines.circle(start.x, start.y, start.z, radius, color);
+    lines.circle(end.x, end.y, end.z, radius, color);
+
+    if (!bidirectional) {
+      // arrow head at the end of a one way connection
+      const direction = end.subtract(start);
+      direction.y = 0;
+      direction.normalize().scaleInPlace(radius);
+      lines.segment(end.x, end.y, end.z, end.x - direction.x - direction.z * 0.5, end.y, end.z - direction.z + direction.x * 0.5, color);
+      lines.segment(end.x, end.y, end.z, end.x - direction.x + direction.z * 0.5, end.y, end.z - direction.z - direction.x * 0.5, color);
+    }
+  }
+}
@@ -0,0 +1,960 @@
+import type {
+  IntArray, OffMeshConnectionParams, RawModule, RecastCompactHeightfield, RecastConfig, RecastContourSet, RecastHeightfield, RecastPolyMesh, RecastPolyMeshDetail, UnsignedCharArray, Vector3Tuple
+} from "recast-navigation";
+import {
+  allocCompactHeightfield,
+  allocContourSet,
+  allocHeightfield,
+  allocHeightfieldLayerSet,
+  allocPolyMesh,
+  allocPolyMeshDetail,
+  buildCompactHeightfield,
+  buildContours,
+  buildDistanceField,
+  buildHeightfieldLayers,
+  buildPolyMesh,
+  buildPolyMeshDetail,
+  buildRegions,
+  buildTileCacheLayer,
+  calcGridSize,
+  ChunkIdsArray,
+  cloneRcConfig,
+  createHeightfield,
+  createNavMeshData,
+  createRcConfig,
+  Detour,
+  DetourTileCacheParams,
+  exportTileCache,
+  erodeWalkableArea,
+  filterLedgeSpans,
+  filterLowHangingWalkableObstacles,
+  filterWalkableLowHeightSpans,
+  FloatArray,
+  freeCompactHeightfield,
+  freeContourSet,
+  freeHeightfield,
+  freeHeightfieldLayerSet,
+  freePolyMesh,
+  freePolyMeshDetail,
+  getHeightfieldLayerAreas,
+  getHeightfieldLayerCons,
+  getHeightfieldLayerHeights,
+  markConvexPolyArea,
+  markWalkableTriangles,
+  NavMesh,
+  NavMeshCreateParams,
+  NavMeshParams,
+  rasterizeTriangles,
+  Raw,
+  Recast,
+  RecastBuildContext,
+  RecastChunkyTriMesh,
+  recastConfigDefaults,
+  statusFailed,
+  TileCache,
+  TileCacheData,
+  TileCacheMeshProcess,
+  TriangleAreasArray,
+  TrianglesArray,
+  VerticesArray,
+} from "recast-navigation";
+import type {
+  INavMeshBuildLogMessage, INavMeshBuildOutput, INavMeshBuildReport, INavMeshConvexVolumeParams, NavMeshBuildConfig, NavMeshBuildErrorCode, NavMeshBuildErrorStage, NavMeshBuildMode, NavMeshBuildStage
+} from "./RecastNavigationJSWorkerProtocol";
+import { dtIlog2, dtNextPow2, getBoundingBox } from "recast-navigation/generators";
+
+/**
+ * Error thrown when a navmesh build fails
+ */
+export class NavMeshBuildError extends Error {
+  /**
+   * kind of failure
+   */
+  public readonly code: NavMeshBuildErrorCode;
+  /**
+   * stage that failed
+   */
+  public readonly stage: NavMeshBuildErrorStage;
+  /**
+   * messages logged by Recast until the failure
+   */
+  public readonly logs: INavMeshBuildLogMessage[];
+
+  /**
+   * Creates a navmesh build error
+   * @param message reason of the failure
+   * @param code kind of failure
+   * @param stage stage that failed
+   * @param logs messages logged by Recast until the failure
+   */
+  public constructor(message: string, code: NavMeshBuildErrorCode, stage: NavMeshBuildErrorStage, logs: INavMeshBuildLogMessage[] = []) {
+    super(message);
+    this.name = "NavMeshBuildError";
+    this.code = code;
+    this.stage = stage;
+    this.logs = logs;
+  }
+}
+
+/**
+ * Area ids of the input triangles and polygon flags of each area id
+ */
+export interface INavMeshBuildAreas {
+  /**
+   * area id of each input triangle, between 0 and 62. 0 is the default walkable area
+   */
+  triangleAreas: Uint8Array;
+  /**
+   * polygon flags given to the polygons of each area id
+   */
+  areaFlags: ArrayLike<number>;
+}
+
+/**
+ * Tile grid of a tiled navmesh. Kept by the plugin so tiles can be rebuilt after the input geometry changed
+ */
+export interface ITiledNavMeshLayout {
+  /**
+   * world position of the corner of tile (0, 0)
+   */
+  origin: Vector3Tuple;
+  /**
+   * width and depth of a tile in world units
+   */
+  tileWorldSize: number;
+  /**
+   * width of the border rasterized around each tile in world units
+   */
+  borderWorldSize: number;
+  /**
+   * number of tiles along the x axis
+   */
+  tileWidthCount: number;
+  /**
+   * number of tiles along the z axis
+   */
+  tileHeightCount: number;
+  /**
+   * maximum number of tiles the navmesh can hold
+   */
+  maxTiles: number;
+  /**
+   * maximum number of polygons per tile
+   */
+  maxPolysPerTile: number;
+}
+
+/**
+ * Computes the tile grid covering a bounding box
+ * @param bbMin bounding box minimum
+ * @param bbMax bounding box maximum
+ * @param config recast config. tileSize must be greater than 0
+ * @param layersPerTile number of tiles stored at each tile location, more than 1 for the layers of a tile cache
+ * @returns the tile grid
+ */
+export const computeTiledNavMeshLayout = (bbMin: Vector3Tuple, bbMax: Vector3Tuple, config: Partial<RecastConfig>, layersPerTile = 1): ITiledNavMeshLayout => {
+  const cs = config.cs ?? recastConfigDefaults.cs;
+  const walkableRadius = config.walkableRadius ?? recastConfigDefaults.walkableRadius;
+  const tileSize = Math.floor(config.tileSize ?? 0);
+  if (tileSize <= 0) {
+    throw new NavMeshBuildError("A tiled navmesh needs a tileSize greater than 0.", "invalidInput", "input");
+  }
+
+  const { width, height } = calcGridSize(bbMin, bbMax, cs);
+  const tileWidthCount = Math.floor((width + tileSize - 1) / tileSize);
+  const tileHeightCount = Math.floor((height + tileSize - 1) / tileSize);
+  // a polygon ref has 22 bits for the tile and polygon indices
+  const tileBits = Math.min(dtIlog2(dtNextPow2(tileWidthCount * tileHeightCount * layersPerTile)), 14);
+  return {
+    origin: [bbMin[0], bbMin[1], bbMin[2]],
+    tileWorldSize: tileSize * cs,
+    borderWorldSize: (Math.floor(walkableRadius) + 3) * cs,
+    tileWidthCount,
+    tileHeightCount,
+    maxTiles: 1 << tileBits,
+    maxPolysPerTile: 1 << (22 - tileBits),
+  };
+};
+
+/**
+ * Gets the range of tiles overlapping a world space box on the xz plane
+ * @param layout tile grid
+ * @param bmin box minimum
+ * @param bmax box maximum
+ * @param includeBorder also returns the tiles whose border overlaps the box. Those tiles rasterize the geometry in the box too
+ * @returns the first and last tile coordinates as [minX, minY, maxX, maxY]
+ */
+export const getTileRange = (layout: ITiledNavMeshLayout, bmin: Vector3Tuple, bmax: Vector3Tuple, includeBorder = false): [minX: number, minY: number, maxX: number, maxY: number] => {
+  const { origin, tileWorldSize } = layout;
+  const border = includeBorder ? layout.borderWorldSize : 0;
+  const minX = Math.floor((bmin[0] - border - origin[0]) / tileWorldSize);
+  const minY = Math.floor((bmin[2] - border - origin[2]) / tileWorldSize);
+  // a box ending exactly on a tile boundary does not overlap the next tile
+  const maxX = Math.max(Math.ceil((bmax[0] + border - origin[0]) / tileWorldSize) - 1, minX);
+  const maxY = Math.max(Math.ceil((bmax[2] + border - origin[2]) / tileWorldSize) - 1, minY);
+  return [minX, minY, maxX, maxY];
+};
+
+/**
+ * Creates the tile cache mesh process giving the polygons of rebuilt tile cache tiles their area and flags
+ * @param areaFlags polygon flags of each area id
+ * @param offMeshConnections off-mesh connections added to the tiles containing their start position
+ * @returns the mesh process
+ */
+export const createTileCacheMeshProcess = (areaFlags: ArrayLike<number> = [1], offMeshConnections: OffMeshConnectionParams[] = []): TileCacheMeshProcess => {
+  return new TileCacheMeshProcess((navMeshCreateParams, polyAreas, polyFlags) => {
+    for (let i = 0; i < navMeshCreateParams.polyCount(); i++) {
+      const area = polyAreas.get(i) === Recast.RC_WALKABLE_AREA ? 0 : polyAreas.get(i);
+      polyAreas.set(i, area);
+      polyFlags.set(i, areaFlags[area] ?? 0);
+    }
+    navMeshCreateParams.setOffMeshConnections(offMeshConnections);
+  });
+};
+
+// the off-mesh connections of a tile cache are not part of its tiles, they are appended to the exported data
+const offMeshConnectionsMagic = "OMCN";
+const offMeshConnectionsFooterSize = 8;
+
+/**
+ * Exports a tile cache with the off-mesh connections of its mesh process.
+ * The result can still be imported by importTileCache, which ignores the appended connections
+ * @param navMesh navmesh of the tile cache
+ * @param tileCache the tile cache
+ * @param offMeshConnections off-mesh connections given to the mesh process
+ * @returns the exported data
+ */
+export const exportTileCacheData = (navMesh: NavMesh, tileCache: TileCache, offMeshConnections: OffMeshConnectionParams[]): Uint8Array => {
+  const tileCacheData = exportTileCache(navMesh, tileCache);
+  if (offMeshConnections.length === 0) {
+    return tileCacheData;
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(offMeshConnections));
+  const data = new Uint8Array(tileCacheData.length + json.length + offMeshConnectionsFooterSize);
+  data.set(tileCacheData);
+  data.set(json, tileCacheData.length);
+  const footer = new DataView(data.buffer, data.length - offMeshConnectionsFooterSize);
+  footer.setUint32(0, json.length, true);
+  for (let i = 0; i < offMeshConnectionsMagic.length; i++) {
+    footer.setUint8(4 + i, offMeshConnectionsMagic.charCodeAt(i));
+  }
+  return data;
+};
+
+/**
+ * Reads the off-mesh connections appended by exportTileCacheData
+ * @param data exported tile cache data
+ * @returns the off-mesh connections, empty if there is none
+ */
+export const getTileCacheDataOffMeshConnections = (data: Uint8Array): OffMeshConnectionParams[] => {
+  if (data.length < offMeshConnectionsFooterSize) {
+    return [];
+  }
+  const footer = new DataView(data.buffer, data.byteOffset + data.length - offMeshConnectionsFooterSize, offMeshConnectionsFooterSize);
+  for (let i = 0; i < offMeshConnectionsMagic.length; i++) {
+    if (footer.getUint8(4 + i) !== offMeshConnectionsMagic.charCodeAt(i)) {
+      return [];
+    }
+  }
+  const length = footer.getUint32(0, true);
+  const start = data.length - offMeshConnectionsFooterSize - length;
+  return JSON.parse(new TextDecoder().decode(data.subarray(start, start + length)));
+};
+
+/**
+ * Reads the off-mesh connections stored in the tiles of a navmesh
+ * @param navMesh the navmesh
+ * @returns the off-mesh connections
+ */
+export const getNavMeshOffMeshConnections = (navMesh: NavMesh): OffMeshConnectionParams[] => {
+  const offMeshConnections: OffMeshConnectionParams[] = [];
+  for (let i = 0; i < navMesh.getMaxTiles(); i++) {
+    const tile = navMesh.getTile(i);
+    const header = tile.header();
+    if (!header) {
+      continue;
+    }
+    for (let j = 0; j < header.offMeshConCount(); j++) {
+      const connection = tile.offMeshCons(j);
+      const poly = tile.polys(connection.poly());
+      offMeshConnections.push({
+        startPosition: { x: connection.pos(0), y: connection.pos(1), z: connection.pos(2) },
+        endPosition: { x: connection.pos(3), y: connection.pos(4), z: connection.pos(5) },
+        radius: connection.rad(),
+        bidirectional: (connection.flags() & Detour.DT_OFFMESH_CON_BIDIR) !== 0,
+        area: poly.areaAndType() & 0x3f,
+        flags: poly.flags(),
+        userId: connection.userId(),
+      });
+    }
+  }
+  return offMeshConnections;
+};
+
+/**
+ * Measures a built navmesh for its build report
+ * @param navMesh the navmesh
+ * @returns the polygon, vertex and tile counts, the bounds and the size of the tiles
+ */
+export const getNavMeshBuildOutput = (navMesh: NavMesh): INavMeshBuildOutput => {
+  const output: INavMeshBuildOutput = { polygonCount: 0, vertexCount: 0, tileCount: 0, bounds: null, memorySize: 0 };
+  for (let i = 0; i < navMesh.getMaxTiles(); i++) {
+    const tile = navMesh.getTile(i);
+    const header = tile.header();
+    if (!header) {
+      continue;
+    }
+    // Detour stores each off-mesh connection as a polygon with two vertices
+    output.polygonCount += header.polyCount() - header.offMeshConCount();
+    output.vertexCount += header.vertCount() - header.offMeshConCount() * 2;
+    output.tileCount++;
+    output.memorySize += tile.dataSize();
+    if (!output.bounds) {
+      output.bounds = [[header.bmin(0), header.bmin(1), header.bmin(2)], [header.bmax(0), header.bmax(1), header.bmax(2)]];
+      continue;
+    }
+    for (let axis = 0; axis < 3; axis++) {
+      output.bounds[0][axis] = Math.min(output.bounds[0][axis], header.bmin(axis));
+      output.bounds[1][axis] = Math.max(output.bounds[1][axis], header.bmax(axis));
+    }
+  }
+  return output;
+};
+
+/**
+ * Builds solo navmeshes, tiled navmeshes and tile caches from a world space triangle soup.
+ * Triangles are rasterized with their area id, so polygons never straddle two areas.
+ * A failure throws a NavMeshBuildError. The builder owns wasm memory, call destroy once done
+ */
+export class NavMeshBuilder {
+  private _startTime = performance.now();
+  private _timings = NavMeshBuilder._CreateTimings();
+  private _baseConfig: NavMeshBuildConfig;
+  private _config: RawModule.rcConfig;
+  private _buildContext = new RecastBuildContext(true);
+  private _layout: ITiledNavMeshLayout | null = null;
+  private _vertexCount: number;
+  private _triangleCount: number;
+  private _verts = new VerticesArray();
+  private _tris = new TrianglesArray();
+  private _chunkyTriMesh: RecastChunkyTriMesh | null = null;
+  private _bbMin: Vector3Tuple;
+  private _bbMax: Vector3Tuple;
+  private _triangleAreas: Uint8Array | null;
+  private _areaFlags: ArrayLike<number>;
+  private _offMeshConnections: OffMeshConnectionParams[];
+  private _convexVolumes: INavMeshConvexVolumeParams[];
+  private _trianglesByVertices: Map<string, number> | null = null;
+
+  /**
+   * Creates a builder for the given geometry
+   * @param positions flat array of world space positions
+   * @param indices flat array of triangle indices
+   * @param config recast config
+   * @param layout tile grid of an existing navmesh. Computed from the geometry bounds and tileSize when not provided
+   * @param areas area id of each triangle and polygon flags of each area. All triangles use area 0 with flags 1 when not provided
+   */
+  public constructor(positions: ArrayLike<number>, indices: ArrayLike<number>, config: NavMeshBuildConfig, layout?: ITiledNavMeshLayout | null, areas?: INavMeshBuildAreas) {
+    const { bbMin, bbMax } = getBoundingBox(positions, indices);
+    this._bbMin = bbMin;
+    this._bbMax = bbMax;
+    this._baseConfig = config;
+    this._config = NavMeshBuilder._CreateRcConfig(config);
+
+    if (layout) {
+      this._layout = layout;
+    } else if (this._config.tileSize > 0) {
+      this._layout = computeTiledNavMeshLayout(bbMin, bbMax, config);
+    }
+
+    this._vertexCount = positions.length / 3;
+    this._triangleCount = indices.length / 3;
+    this._verts.copy(Array.from(positions));
+    this._tris.copy(Array.from(indices));
+
+    this._triangleAreas = areas && areas.triangleAreas.some((area) => area !== 0) ? areas.triangleAreas : null;
+    this._areaFlags = areas?.areaFlags ?? [1];
+    this._offMeshConnections = config.offMeshConnections ?? [];
+    this._convexVolumes = config.convexVolumes ?? [];
+  }
+
+  /**
+   * Changes the recast config of the next builds. The geometry and its spatial partitioning are kept,
+   * so navmeshes for several agent sizes are built from the same input without copying it again
+   * @param config recast config
+   * @param layout tile grid of an existing navmesh. Computed from the geometry bounds and tileSize when not provided
+   */
+  public setConfig (config: NavMeshBuildConfig, layout?: ITiledNavMeshLayout | null): void {
+    Raw.destroy(this._config);
+    this._baseConfig = config;
+    this._config = NavMeshBuilder._CreateRcConfig(config);
+    this._layout = layout ?? (this._config.tileSize > 0 ? computeTiledNavMeshLayout(this._bbMin, this._bbMax, config) : null);
+    this._offMeshConnections = config.offMeshConnections ?? [];
+    this._convexVolumes = config.convexVolumes ?? [];
+  }
+
+  private static _CreateTimings (): Record<NavMeshBuildStage, number> {
+    return { rasterize: 0, compact: 0, regions: 0, contours: 0, polyMesh: 0, detail: 0, navMesh: 0, layers: 0 };
+  }
+
+  private static _CreateRcConfig (config: NavMeshBuildConfig): RawModule.rcConfig {
+    const rc = createRcConfig({ ...recastConfigDefaults, ...config });
+    rc.tileSize = Math.floor(rc.tileSize);
+    rc.minRegionArea = rc.minRegionArea * rc.minRegionArea;
+    rc.mergeRegionArea = rc.mergeRegionArea * rc.mergeRegionArea;
+    rc.detailSampleDist = rc.detailSampleDist < 0.9 ? 0 : rc.cs * rc.detailSampleDist;
+    rc.detailSampleMaxError = rc.ch * rc.detailSampleMaxError;
+    return rc;
+  }
+
+  /**
+   * tile grid used by the builder. Only available with a tileSize greater than 0
+   */
+  public get layout (): ITiledNavMeshLayout {
+    if (!this._layout) {
+      throw new NavMeshBuildError("A tiled navmesh needs a tileSize greater than 0.", "invalidInput", "input");
+    }
+    return this._layout;
+  }
+
+  /**
+   * Creates the report of the navmeshes built since the builder was created, or since the previous report
+   * @param mode how the navmeshes were built
+   * @param navMesh the navmesh built from the first config, see getNavMeshBuildOutput
+   * @param profiles the navmeshes built after each setConfig
+   * @returns the report
+   */
+  public createReport (mode: NavMeshBuildMode, navMesh: INavMeshBuildOutput, profiles: Array<{ name: string; navMesh: INavMeshBuildOutput }> = []): INavMeshBuildReport {
+    const report: INavMeshBuildReport = {
+      mode,
+      inputVertexCount: this._vertexCount,
+      inputTriangleCount: this._triangleCount,
+      timings: this._timings,
+      totalTime: performance.now() - this._startTime,
+      navMesh,
+      profiles,
+      logs: this._getLogs(),
+    };
+    this._startTime = performance.now();
+    this._timings = NavMeshBuilder._CreateTimings();
+    this._buildContext.resetLog();
+    return report;
+  }
+
+  /**
+   * Creates a navmesh made of a single tile covering the geometry
+   * @returns the navmesh
+   */
+  public createSoloNavMesh (): NavMesh {
+    const cfg = cloneRcConfig(this._config);
+    try {
+      const { width, height } = calcGridSize(this._bbMin, this._bbMax, cfg.cs);
+      cfg.width = width;
+      cfg.height = height;
+      this._setConfigBounds(cfg, this._bbMin, this._bbMax);
+
+      const compactHeightfield = this._rasterize(cfg, null);
+      const navMeshData = compactHeightfield && this._buildNavMeshData(cfg, compactHeightfield, 0, 0);
+      if (!navMeshData) {
+        throw this._createError("Unable to generate the solo navmesh: the geometry has no walkable area.", "noWalkableArea", "polyMesh");
+      }
+
+      const time = performance.now();
+      const navMesh = new NavMesh();
+      if (!navMesh.initSolo(navMeshData)) {
+        navMeshData.destroy();
+        navMesh.destroy();
+        throw this._createError("Failed to create Detour navmesh", "detourFailure", "navMesh");
+      }
+      this._endStage("navMesh", time);
+      return navMesh;
+    } finally {
+      Raw.destroy(cfg);
+    }
+  }
+
+  /**
+   * Creates a tiled navmesh and builds every tile covering the geometry
+   * @returns the navmesh
+   */
+  public createTiledNavMesh (): NavMesh {
+    const navMesh = this._initTiledNavMesh(this.layout);
+
+    const [minX, minY, maxX, maxY] = getTileRange(this.layout, this._bbMin, this._bbMax);
+    for (let ty = minY; ty <= maxY; ty++) {
+      for (let tx = minX; tx <= maxX; tx++) {
+        this.buildTile(navMesh, tx, ty);
+      }
+    }
+    return navMesh;
+  }
+
+  /**
+   * Creates a tile cache holding the compressed layers of every tile, and the navmesh built from it
+   * @param tileCacheMeshProcess mesh process of the tile cache, see createTileCacheMeshProcess
+   * @returns the navmesh and the tile cache
+   */
+  public createTileCache (tileCacheMeshProcess: TileCacheMeshProcess): { navMesh: NavMesh; tileCache: TileCache } {
+    const config = this._config;
+    const expectedLayersPerTile = this._baseConfig.expectedLayersPerTile ?? 4;
+    const maxObstacles = this._baseConfig.maxObstacles ?? 128;
+    const layout = computeTiledNavMeshLayout(this._bbMin, this._bbMax, this._baseConfig, expectedLayersPerTile);
+    const [minX, minY, maxX, maxY] = getTileRange(layout, this._bbMin, this._bbMax);
+
+    let time = performance.now();
+    const tileCache = new TileCache();
+    // the tile cache expects world units, the recast config uses cells
+    const params = DetourTileCacheParams.create({
+      orig: layout.origin,
+      cs: config.cs,
+      ch: config.ch,
+      width: config.tileSize,
+      height: config.tileSize,
+      walkableHeight: config.walkableHeight * config.ch,
+      walkableRadius: config.walkableRadius * config.cs,
+      walkableClimb: config.walkableClimb * config.ch,
+      maxSimplificationError: config.maxSimplificationError,
+      maxTiles: (maxX - minX + 1) * (maxY - minY + 1) * expectedLayersPerTile,
+      maxObstacles,
+    });
+    const allocator = new Raw.RecastLinearAllocator(32000);
+    const compressor = new Raw.RecastFastLZCompressor();
+    if (!tileCache.init(params, allocator, compressor, tileCacheMeshProcess)) {
+      tileCache.destroy();
+      throw this._createError("Failed to initialize tile cache", "detourFailure", "layers");
+    }
+    this._endStage("layers", time);
+
+    const navMesh = this._initTiledNavMesh(layout);
+    const cfg = cloneRcConfig(config);
+    try {
+      for (let ty = minY; ty <= maxY; ty++) {
+        for (let tx = minX; tx <= maxX; tx++) {
+          const layers = this._buildTileLayers(cfg, layout, compressor, tx, ty);
+          time = performance.now();
+          for (const layer of layers) {
+            const { status } = tileCache.addTile(layer);
+            if (statusFailed(status)) {
+              layer.destroy();
+              this._buildContext.log(Recast.RC_LOG_WARNING, `Failed to add tile to tile cache - tx: ${tx}, ty: ${ty}`);
+            }
+          }
+          this._endStage("layers", time);
+        }
+      }
+
+      // the tile cache rebuilds the polygons of each layer, this is all timed as the navMesh stage
+      time = performance.now();
+      for (let ty = minY; ty <= maxY; ty++) {
+        for (let tx = minX; tx <= maxX; tx++) {
+          if (statusFailed(tileCache.buildNavMeshTilesAt(tx, ty, navMesh))) {
+            throw this._createError(`Failed to build nav mesh tiles at ${tx}, ${ty}`, "detourFailure", "navMesh");
+          }
+        }
+      }
+      this._endStage("navMesh", time);
+    } catch (e) {
+      tileCache.destroy();
+      navMesh.destroy();
+      throw e;
+    } finally {
+      Raw.destroy(cfg);
+    }
+
+    return { navMesh, tileCache };
+  }
+
+  /**
+   * Builds one tile and swaps it into the navmesh. A tile without walkable area is removed from the navmesh
+   * @param navMesh tiled navmesh created with the same layout
+   * @param tx tile x coordinate
+   * @param ty tile y coordinate
+   * @returns true if the navmesh now holds a tile at this location
+   */
+  public buildTile (navMesh: NavMesh, tx: number, ty: number): boolean {
+    const tileData = this._buildTileData(tx, ty);
+
+    const time = performance.now();
+    const existingTile = navMesh.getTileRefAt(tx, ty, 0);
+    if (existingTile) {
+      navMesh.removeTile(existingTile);
+    }
+    if (!tileData) {
+      return false;
+    }
+
+    const { status } = navMesh.addTile(tileData, Detour.DT_TILE_FREE_DATA, 0);
+    this._endStage("navMesh", time);
+    if (statusFailed(status)) {
+      tileData.destroy();
+      this._buildContext.log(Recast.RC_LOG_WARNING, `Failed to add tile to nav mesh - tx: ${tx}, ty: ${ty}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Release the wasm memory used by the builder
+   */
+  public destroy (): void {
+    this._verts.destroy();
+    this._tris.destroy();
+    if (this._chunkyTriMesh) {
+      Raw.destroy(this._chunkyTriMesh.raw);
+      this._chunkyTriMesh = null;
+    }
+    Raw.destroy(this._config);
+  }
+
+  private _initTiledNavMesh (layout: ITiledNavMeshLayout): NavMesh {
+    const navMesh = new NavMesh();
+    const { origin, tileWorldSize, maxTiles, maxPolysPerTile } = layout;
+    const params = NavMeshParams.create({
+      orig: { x: origin[0], y: origin[1], z: origin[2] },
+      tileWidth: tileWorldSize,
+      tileHeight: tileWorldSize,
+      maxTiles,
+      maxPolys: maxPolysPerTile,
+    });
+    if (!navMesh.initTiled(params)) {
+      navMesh.destroy();
+      throw this._createError("Could not init nav mesh for tiled use", "detourFailure", "navMesh");
+    }
+    return navMesh;
+  }
+
+  /**
+   * Adds the time elapsed since start to a stage
+   * @returns the current time
+   */
+  private _endStage (stage: NavMeshBuildStage, start: number): number {
+    const now = performance.now();
+    this._timings[stage] += now - start;
+    return now;
+  }
+
+  /**
+   * Throws an error for a Recast step that failed, with the last error logged by Recast
+   */
+  private _check (success: boolean, stage: NavMeshBuildStage): void {
+    if (success) {
+      return;
+    }
+    const errors = this._buildContext.logs.filter((log) => log.category === Recast.RC_LOG_ERROR);
+    const reason = errors.length > 0 ? `: ${errors[errors.length - 1].msg}` : "";
+    throw this._createError(`Recast failed in the ${stage} stage${reason}.`, "recastFailure", stage);
+  }
+
+  private _createError (message: string, code: NavMeshBuildErrorCode, stage: NavMeshBuildErrorStage): NavMeshBuildError {
+    return new NavMeshBuildError(message, code, stage, this._getLogs());
+  }
+
+  private _getLogs (): INavMeshBuildLogMessage[] {
+    return this._buildContext.logs.map(({ category, msg }) => ({
+      level: category === Recast.RC_LOG_ERROR ? "error" : category === Recast.RC_LOG_WARNING ? "warning" : "progress",
+      message: msg,
+    }));
+  }
+
+  private _getChunkyTriMesh (): RecastChunkyTriMesh {
+    if (!this._chunkyTriMesh) {
+      const chunkyTriMesh = new RecastChunkyTriMesh();
+      if (!chunkyTriMesh.init(this._verts, this._tris, this._triangleCount, 256)) {
+        Raw.destroy(chunkyTriMesh.raw);
+        throw this._createError("Failed to build chunky triangle mesh", "recastFailure", "rasterize");
+      }
+
+      this._chunkyTriMesh = chunkyTriMesh;
+    }
+    return this._chunkyTriMesh;
+  }
+
+  /**
+   * Sets the size and bounds of a tile, with its border, in a config
+   */
+  private _setTileConfig (cfg: RawModule.rcConfig, layout: ITiledNavMeshLayout, tx: number, ty: number): void {
+    const { origin, tileWorldSize } = layout;
+    // tiles need a border so the polygons of neighbouring tiles line up
+    cfg.borderSize = cfg.walkableRadius + 3;
+    cfg.width = cfg.tileSize + cfg.borderSize * 2;
+    cfg.height = cfg.tileSize + cfg.borderSize * 2;
+    const border = cfg.borderSize * cfg.cs;
+    const tileBmin: Vector3Tuple = [origin[0] + tx * tileWorldSize - border, this._bbMin[1], origin[2] + ty * tileWorldSize - border];
+    const tileBmax: Vector3Tuple = [origin[0] + (tx + 1) * tileWorldSize + border, this._bbMax[1], origin[2] + (ty + 1) * tileWorldSize + border];
+    this._setConfigBounds(cfg, tileBmin, tileBmax);
+  }
+
+  private _setConfigBounds (cfg: RawModule.rcConfig, bmin: Vector3Tuple, bmax: Vector3Tuple): void {
+    for (let i = 0; i < 3; i++) {
+      cfg.set_bmin(i, bmin[i]);
+      cfg.set_bmax(i, bmax[i]);
+    }
+  }
+
+  private _buildTileData (tx: number, ty: number) {
+    const cfg = cloneRcConfig(this._config);
+    try {
+      this._setTileConfig(cfg, this.layout, tx, ty);
+      const compactHeightfield = this._rasterize(cfg, this._getChunkyTriMesh());
+      return compactHeightfield && this._buildNavMeshData(cfg, compactHeightfield, tx, ty);
+    } finally {
+      Raw.destroy(cfg);
+    }
+  }
+
+  private _buildTileLayers (cfg: RawModule.rcConfig, layout: ITiledNavMeshLayout, compressor: RawModule.RecastFastLZCompressor, tx: number, ty: number) {
+    const ctx = this._buildContext;
+    this._setTileConfig(cfg, layout, tx, ty);
+    const compactHeightfield = this._rasterize(cfg, this._getChunkyTriMesh());
+    if (!compactHeightfield) {
+      return [];
+    }
+
+    const time = performance.now();
+    const layerSet = allocHeightfieldLayerSet();
+    const built = buildHeightfieldLayers(ctx, compactHeightfield, cfg.borderSize, cfg.walkableHeight, layerSet);
+    freeCompactHeightfield(compactHeightfield);
+    if (!built) {
+      freeHeightfieldLayerSet(layerSet);
+    }
+    this._check(built, "layers");
+
+    const layers = [];
+    for (let i = 0; i < layerSet.nlayers(); i++) {
+      const layer = layerSet.layers(i);
+      const header = new Raw.dtTileCacheLayerHeader();
+      header.magic = Detour.DT_TILECACHE_MAGIC;
+      header.version = Detour.DT_TILECACHE_VERSION;
+      header.tx = tx;
+      header.ty = ty;
+      header.tlayer = i;
+      const bmin = layer.bmin();
+      const bmax = layer.bmax();
+      header.set_bmin(0, bmin.x);
+      header.set_bmin(1, bmin.y);
+      header.set_bmin(2, bmin.z);
+      header.set_bmax(0, bmax.x);
+      header.set_bmax(1, bmax.y);
+      header.set_bmax(2, bmax.z);
+      header.width = layer.width();
+      header.height = layer.height();
+      header.minx = layer.minx();
+      header.maxx = layer.maxx();
+      header.miny = layer.miny();
+      header.maxy = layer.maxy();
+      header.hmin = layer.hmin();
+      header.hmax = layer.hmax();
+
+      const data = new TileCacheData();
+      const status = buildTileCacheLayer(compressor, header, getHeightfieldLayerHeights(layer), getHeightfieldLayerAreas(layer), getHeightfieldLayerCons(layer), data);
+      Raw.destroy(header);
+      if (statusFailed(status)) {
+        data.destroy();
+        continue;
+      }
+      layers.push(data);
+    }
+    freeHeightfieldLayerSet(layerSet);
+    this._endStage("layers", time);
+    return layers;
+  }
+
+  /**
+   * Rasterizes the triangles overlapping the config bounds with their area ids, builds the eroded compact heightfield
+   * and marks the convex volumes on it
+   * @param cfg config holding the bounds and size of the heightfield
+   * @param chunkyTriMesh spatial index of the triangles, null to rasterize every triangle
+   * @returns the compact heightfield, null if no triangle overlaps the bounds
+   */
+  private _rasterize (cfg: RawModule.rcConfig, chunkyTriMesh: RecastChunkyTriMesh | null): RecastCompactHeightfield | null {
+    const ctx = this._buildContext;
+    const bmin: Vector3Tuple = [cfg.get_bmin(0), cfg.get_bmin(1), cfg.get_bmin(2)];
+    const bmax: Vector3Tuple = [cfg.get_bmax(0), cfg.get_bmax(1), cfg.get_bmax(2)];
+
+    let nodeIds: number[] | null = null;
+    if (chunkyTriMesh) {
+      const chunkIds = new ChunkIdsArray();
+      chunkIds.resize(512);
+      const chunkCount = chunkyTriMesh.getChunksOverlappingRect([bmin[0], bmin[2]], [bmax[0], bmax[2]], chunkIds, 512);
+      nodeIds = [];
+      for (let i = 0; i < chunkCount; i++) {
+        nodeIds.push(chunkIds.get(i));
+      }
+      chunkIds.destroy();
+      if (nodeIds.length === 0) {
+        return null;
+      }
+    }
+
+    let time = performance.now();
+    let heightfield: RecastHeightfield | null = allocHeightfield();
+    const compactHeightfield = allocCompactHeightfield();
+    let built = false;
+    try {
+      this._check(createHeightfield(ctx, heightfield, cfg.width, cfg.height, bmin, bmax, cfg.cs, cfg.ch), "rasterize");
+      if (chunkyTriMesh && nodeIds) {
+        for (const nodeId of nodeIds) {
+          this._check(this._rasterizeTriangles(cfg, heightfield, chunkyTriMesh.getNodeTris(nodeId), chunkyTriMesh.nodes(nodeId).n, true), "rasterize");
+        }
+      } else {
+        this._check(this._rasterizeTriangles(cfg, heightfield, this._tris, this._triangleCount, false), "rasterize");
+      }
+
+      filterLowHangingWalkableObstacles(ctx, cfg.walkableClimb, heightfield);
+      filterLedgeSpans(ctx, cfg.walkableHeight, cfg.walkableClimb, heightfield);
+      filterWalkableLowHeightSpans(ctx, cfg.walkableHeight, heightfield);
+      time = this._endStage("rasterize", time);
+
+      this._check(buildCompactHeightfield(ctx, cfg.walkableHeight, cfg.walkableClimb, heightfield, compactHeightfield), "compact");
+      freeHeightfield(heightfield);
+      heightfield = null;
+      this._check(erodeWalkableArea(ctx, cfg.walkableRadius, compactHeightfield), "compact");
+      this._markConvexVolumes(compactHeightfield, bmin, bmax);
+      this._endStage("compact", time);
+      built = true;
+      return compactHeightfield;
+    } finally {
+      if (heightfield) {
+        freeHeightfield(heightfield);
+      }
+      if (!built) {
+        freeCompactHeightfield(compactHeightfield);
+      }
+    }
+  }
+
+  /**
+   * Gives the walkable spans inside the convex volumes overlapping a heightfield the area id of their volume
+   */
+  private _markConvexVolumes (compactHeightfield: RecastCompactHeightfield, bmin: Vector3Tuple, bmax: Vector3Tuple): void {
+    for (const { vertices, hmin, hmax, area } of this._convexVolumes) {
+      let [minX, minZ, maxX, maxZ] = [Infinity, Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < vertices.length; i += 3) {
+        minX = Math.min(minX, vertices[i]);
+        minZ = Math.min(minZ, vertices[i + 2]);
+        maxX = Math.max(maxX, vertices[i]);
+        maxZ = Math.max(maxZ, vertices[i + 2]);
+      }
+      if (maxX < bmin[0] || minX > bmax[0] || maxZ < bmin[2] || minZ > bmax[2] || hmax < bmin[1] || hmin > bmax[1]) {
+        continue;
+      }
+
+      const verts = new FloatArray();
+      verts.copy(vertices);
+      // Recast keeps area 0 for unwalkable spans, the default walkable area is RC_WALKABLE_AREA until the polygons are built
+      markConvexPolyArea(this._buildContext, verts, vertices.length / 3, hmin, hmax, area === 0 ? Recast.RC_WALKABLE_AREA : area, compactHeightfield);
+      verts.destroy();
+    }
+  }
+
+  private _rasterizeTriangles (cfg: RawModule.rcConfig, heightfield: RecastHeightfield, tris: IntArray, triCount: number, reordered: boolean): boolean {
+    const ctx = this._buildContext;
+    const areas = new TriangleAreasArray();
+    areas.resize(triCount);
+    markWalkableTriangles(ctx, cfg.walkableSlopeAngle, this._verts, this._vertexCount, tris, triCount, areas);
+
+    if (this._triangleAreas) {
+      for (let i = 0; i < triCount; i++) {
+        if (areas.get(i) !== Recast.RC_WALKABLE_AREA) {
+          continue;
+        }
+        const triangle = reordered ? this._findTriangle(tris, i) : i;
+        const area = triangle === undefined ? 0 : this._triangleAreas[triangle];
+        if (area !== 0) {
+          areas.set(i, area);
+        }
+      }
+    }
+
+    const rasterized = rasterizeTriangles(ctx, this._verts, this._vertexCount, tris, areas, triCount, heightfield, cfg.walkableClimb);
+    areas.destroy();
+    return rasterized;
+  }
+
+  /**
+   * Finds the input index of a triangle reordered by the chunky triangle mesh
+   */
+  private _findTriangle (tris: IntArray, i: number): number | undefined {
+    if (!this._trianglesByVertices) {
+      this._trianglesByVertices = new Map();
+      for (let triangle = 0; triangle < this._triangleCount; triangle++) {
+        this._trianglesByVertices.set(`${this._tris.get(triangle * 3)}_${this._tris.get(triangle * 3 + 1)}_${this._tris.get(triangle * 3 + 2)}`, triangle);
+      }
+    }
+    return this._trianglesByVertices.get(`${tris.get(i * 3)}_${tris.get(i * 3 + 1)}_${tris.get(i * 3 + 2)}`);
+  }
+
+  /**
+   * Builds the Detour data of a tile from its compact heightfield, which is freed
+   * @returns the tile data, null if the tile has no polygon
+   */
+  private _buildNavMeshData (cfg: RawModule.rcConfig, compactHeightfield: RecastCompactHeightfield, tx: number, ty: number): UnsignedCharArray | null {
+    const contourSet = allocContourSet();
+    const polyMesh = allocPolyMesh();
+    const polyMeshDetail = allocPolyMeshDetail();
+    try {
+      return this._buildPolyMeshes(cfg, compactHeightfield, contourSet, polyMesh, polyMeshDetail) ? this._createNavMeshData(cfg, polyMesh, polyMeshDetail, tx, ty) : null;
+    } finally {
+      freeCompactHeightfield(compactHeightfield);
+      freeContourSet(contourSet);
+      freePolyMesh(polyMesh);
+      freePolyMeshDetail(polyMeshDetail);
+    }
+  }
+
+  /**
+   * Builds the regions, the contours, the polygons and the detail meshes
+   * @returns false if there is no polygon
+   */
+  private _buildPolyMeshes (cfg: RawModule.rcConfig, compactHeightfield: RecastCompactHeightfield, contourSet: RecastContourSet, polyMesh: RecastPolyMesh, polyMeshDetail: RecastPolyMeshDetail): boolean {
+    const ctx = this._buildContext;
+    let time = performance.now();
+    this._check(buildDistanceField(ctx, compactHeightfield), "regions");
+    this._check(buildRegions(ctx, compactHeightfield, cfg.borderSize, cfg.minRegionArea, cfg.mergeRegionArea), "regions");
+    time = this._endStage("regions", time);
+    this._check(buildContours(ctx, compactHeightfield, cfg.maxSimplificationError, cfg.maxEdgeLen, contourSet, Recast.RC_CONTOUR_TESS_WALL_EDGES), "contours");
+    time = this._endStage("contours", time);
+    this._check(buildPolyMesh(ctx, contourSet, cfg.maxVertsPerPoly, polyMesh), "polyMesh");
+    time = this._endStage("polyMesh", time);
+    if (polyMesh.npolys() === 0) {
+      return false;
+    }
+    this._check(buildPolyMeshDetail(ctx, polyMesh, compactHeightfield, cfg.detailSampleDist, cfg.detailSampleMaxError, polyMeshDetail), "detail");
+    this._endStage("detail", time);
+    return true;
+  }
+
+  private _createNavMeshData (cfg: RawModule.rcConfig, polyMesh: RecastPolyMesh, polyMeshDetail: RecastPolyMeshDetail, tx: number, ty: number): UnsignedCharArray {
+    const time = performance.now();
+    for (let i = 0; i < polyMesh.npolys(); i++) {
+      if (polyMesh.areas(i) === Recast.RC_WALKABLE_AREA) {
+        polyMesh.setAreas(i, 0);
+      }
+      polyMesh.setFlags(i, this._areaFlags[polyMesh.areas(i)] ?? 0);
+    }
+
+    const createParams = new NavMeshCreateParams();
+    createParams.setPolyMeshCreateParams(polyMesh);
+    createParams.setPolyMeshDetailCreateParams(polyMeshDetail);
+    // Detour expects world units, the recast config uses cells
+    createParams.setWalkableHeight(cfg.walkableHeight * cfg.ch);
+    createParams.setWalkableRadius(cfg.walkableRadius * cfg.cs);
+    createParams.setWalkableClimb(cfg.walkableClimb * cfg.ch);
+    createParams.setCellSize(cfg.cs);
+    createParams.setCellHeight(cfg.ch);
+    createParams.setBuildBvTree(true);
+    createParams.setTileX(tx);
+    createParams.setTileY(ty);
+    // Detour only keeps the connections starting in this tile
+    createParams.setOffMeshConnections(this._offMeshConnections);
+
+    const { success, navMeshData } = createNavMeshData(createParams);
+    this._endStage("navMesh", time);
+    if (!success) {
+      navMeshData.destroy();
+      throw this._createError(`Failed to create the Detour data of tile ${tx}, ${ty}`, "detourFailure", "navMesh");
+    }
+    return navMeshData;
+  }
+}
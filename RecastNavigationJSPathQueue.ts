@@ -0,0 +1,510 @@
+import type { Nullable } from "@babylonjs/core/types";
+import { Vector3 } from "@babylonjs/core/Maths/math";
+import { PrecisionDate } from "@babylonjs/core/Misc/precisionDate";
+import type { NavMesh, NavMeshQuery, QueryFilter, Vector3 as Vector3Like } from "recast-navigation";
+import { Detour } from "recast-navigation";
+import { getPortal, passFilter } from "./RecastNavigationJSPolyQueries";
+
+/**
+ * Options of a path request, see RecastNavigationJSPlugin.requestPath
+ */
+export interface IPathRequestOptions {
+  /**
+   * query filter of the path. The default filter of the query is used when not provided
+   */
+  filter?: QueryFilter;
+  /**
+   * requests with a higher priority are searched first, requests of the same priority in request order. Default is 0
+   */
+  priority?: number;
+  /**
+   * cancels the request. The returned Promise is rejected with an AbortError
+   */
+  signal?: AbortSignal;
+  /**
+   * navmesh profile, the default profile when not provided
+   */
+  profile?: string;
+}
+
+/**
+ * Path found by a path request
+ */
+export interface IPathRequestResult {
+  /**
+   * world positions of the straight path, empty when a position is away from the navmesh
+   */
+  path: Vector3[];
+  /**
+   * true when the end cannot be reached, the path then leads to the reachable position closest to the end
+   */
+  partial: boolean;
+}
+
+/**
+ * Node of a path search
+ */
+interface IPathNode {
+  ref: number;
+  parent: Nullable<IPathNode>;
+  cost: number;
+  total: number;
+  position: Vector3Like;
+  closed: boolean;
+}
+
+// heuristic scale of Detour, slightly underestimates the remaining cost
+const heuristicScale = 0.999;
+// iterations of a search between two time budget checks
+const iterationsPerSlice = 16;
+const maxStraightPathPoints = 256;
+
+const distance = (a: Vector3Like, b: Vector3Like): number => {
+  return Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y) + (b.z - a.z) * (b.z - a.z));
+};
+
+/**
+ * A* search between two polygons run a few iterations at a time, as the sliced findPath of dtNavMeshQuery
+ */
+export class SlicedPathSearch {
+  /**
+   * "running" until the search ends, "invalid" when a polygon was removed from the navmesh during the search
+   */
+  public state: "running" | "done" | "invalid" = "running";
+
+  private _nodes = new Map<number, IPathNode>();
+  private _open: IPathNode[] = [];
+  private _lastBest: IPathNode;
+  private _lastBestHeuristic: number;
+
+  /**
+   * Starts a search
+   * @param navMesh the navmesh
+   * @param filter polygon filter and area costs
+   * @param startRef start polygon
+   * @param endRef end polygon
+   * @param start start position, on the start polygon
+   * @param end end position, on the end polygon
+   * @param maxNodes maximum number of polygons searched, the path is partial when reached
+   */
+  public constructor(
+    public readonly navMesh: NavMesh,
+    private _filter: QueryFilter,
+    startRef: number,
+    private _endRef: number,
+    start: Vector3Like,
+    private _end: Vector3Like,
+    private _maxNodes: number = 2048
+  ) {
+    const heuristic = distance(start, _end) * heuristicScale;
+    const node: IPathNode = { ref: startRef, parent: null, cost: 0, total: heuristic, position: start, closed: false };
+    this._nodes.set(startRef, node);
+    this._push(node);
+    this._lastBest = node;
+    this._lastBestHeuristic = heuristic;
+  }
+
+  /**
+   * Runs some iterations of the search
+   * @param maxIterations maximum number of polygons expanded
+   * @returns the number of polygons expanded
+   */
+  public update (maxIterations: number): number {
+    let iterations = 0;
+    while (this.state === "running" && iterations < maxIterations) {
+      const best = this._pop();
+      if (!best) {
+        this.state = "done";
+        break;
+      }
+      iterations++;
+      best.closed = true;
+
+      if (best.ref === this._endRef) {
+        this._lastBest = best;
+        this.state = "done";
+        break;
+      }
+      // a tile rebuilt since the previous slice invalidates its polygons
+      if (!this.navMesh.isValidPolyRef(best.ref)) {
+        this.state = "invalid";
+        break;
+      }
+      this._expand(best);
+    }
+    return iterations;
+  }
+
+  /**
+   * Gets the polygons of the path once the search is done
+   * @returns the polygons from the start polygon, and whether the path stops before the end polygon
+   */
+  public finalize (): { polys: number[]; partial: boolean } {
+    const polys: number[] = [];
+    for (let node: Nullable<IPathNode> = this._lastBest; node; node = node.parent) {
+      polys.push(node.ref);
+    }
+    return { polys: polys.reverse(), partial: this._lastBest.ref !== this._endRef };
+  }
+
+  private _expand (best: IPathNode): void {
+    const { tile, poly } = this.navMesh.getTileAndPolyByRef(best.ref);
+    const parentRef = best.parent ? best.parent.ref : 0;
+    const bestAreaCost = this._filter.getAreaCost(poly.areaAndType() & 0x3f);
+
+    for (let i = poly.firstLink(); i !== Detour.DT_NULL_LINK; i = tile.links(i).next()) {
+      const link = tile.links(i);
+      const neighbourRef = link.ref();
+      if (neighbourRef === 0 || neighbourRef === parentRef) {
+        continue;
+      }
+      const neighbourPoly = this.navMesh.getTileAndPolyByRef(neighbourRef).poly;
+      if (!passFilter(this._filter, neighbourPoly)) {
+        continue;
+      }
+
+      let node = this._nodes.get(neighbourRef);
+      if (!node && this._nodes.size >= this._maxNodes) {
+        continue;
+      }
+      let position: Vector3Like;
+      if (node) {
+        position = node.position;
+      } else {
+        const { left, right } = getPortal(this.navMesh, best.ref, tile, poly, neighbourRef, link.edge(), link.side(), link.bmin(), link.bmax());
+        position = { x: (left.x + right.x) * 0.5, y: (left.y + right.y) * 0.5, z: (left.z + right.z) * 0.5 };
+      }
+
+      let cost = best.cost + distance(best.position, position) * bestAreaCost;
+      let heuristic = 0;
+      if (neighbourRef === this._endRef) {
+        // the end polygon cost includes the walk to the end position
+        cost += distance(position, this._end) * this._filter.getAreaCost(neighbourPoly.areaAndType() & 0x3f);
+      } else {
+        heuristic = distance(position, this._end) * heuristicScale;
+      }
+      const total = cost + heuristic;
+      if (node && total >= node.total) {
+        continue;
+      }
+
+      if (!node) {
+        node = { ref: neighbourRef, parent: best, cost, total, position, closed: false };
+        this._nodes.set(neighbourRef, node);
+      } else {
+        node.parent = best;
+        node.cost = cost;
+        node.total = total;
+        node.closed = false;
+      }
+      this._push(node);
+
+      if (heuristic < this._lastBestHeuristic) {
+        this._lastBestHeuristic = heuristic;
+        this._lastBest = node;
+      }
+    }
+  }
+
+  /**
+   * Adds a node to the binary heap. An updated node is pushed again, its outdated entries are skipped by _pop
+   */
+  private _push (node: IPathNode): void {
+    const open = this._open;
+    open.push(node);
+    let i = open.length - 1;
+    const total = node.total;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (open[parent].total <= total) {
+        break;
+      }
+      open[i] = open[parent];
+      i = parent;
+    }
+    open[i] = node;
+  }
+
+  private _pop (): Nullable<IPathNode> {
+    const open = this._open;
+    while (open.length > 0) {
+      const top = open[0];
+      const last = open.pop()!;
+      if (open.length > 0) {
+        let i = 0;
+        for (;;) {
+          const left = i * 2 + 1;
+          if (left >= open.length) {
+            break;
+          }
+          const child = left + 1 < open.length && open[left + 1].total < open[left].total ? left + 1 : left;
+          if (open[child].total >= last.total) {
+            break;
+          }
+          open[i] = open[child];
+          i = child;
+        }
+        open[i] = last;
+      }
+      if (!top.closed) {
+        return top;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Request waiting in the queue, shared by the identical requests made meanwhile
+ */
+interface IQueuedPathRequest {
+  key: string;
+  start: Vector3Like;
+  end: Vector3Like;
+  filter?: QueryFilter;
+  profile?: string;
+  priority: number;
+  order: number;
+  search: Nullable<SlicedPathSearch>;
+  endPosition: Vector3Like;
+  startPosition: Vector3Like;
+  waiters: Array<{ resolve: (result: IPathRequestResult) => void; reject: (reason: Error) => void; signal?: AbortSignal; onAbort: () => void }>;
+}
+
+/**
+ * Path requests searched under a per frame budget, with a cache of the recent results
+ */
+export class NavMeshPathQueue {
+  /**
+   * maximum number of polygons expanded per update
+   */
+  public maxIterations = 500;
+  /**
+   * maximum time in milliseconds spent per update. A search slice can exceed it slightly
+   */
+  public maxTime = 2;
+  /**
+   * maximum number of results kept in the cache
+   */
+  public cacheSize = 64;
+
+  private _requests: IQueuedPathRequest[] = [];
+  private _cache = new Map<string, { path: Vector3Like[]; partial: boolean }>();
+  private _filterIds = new WeakMap<QueryFilter, number>();
+  private _nextFilterId = 1;
+  private _nextOrder = 0;
+
+  /**
+   * Constructor
+   * @param _getProfile gets the navmesh and the query of a profile
+   * @param _createAbortError creates the error rejecting the aborted requests
+   */
+  public constructor(
+    private _getProfile: (profile?: string) => { navMesh: NavMesh; navMeshQuery: NavMeshQuery },
+    private _createAbortError: (message: string) => Error
+  ) {}
+
+  /**
+   * number of requests waiting for their path
+   */
+  public get pendingCount (): number {
+    return this._requests.length;
+  }
+
+  /**
+   * Queues a path request, resolved by a later update or at once from the cache
+   * @param start world position
+   * @param end world position
+   * @param options filter, priority, abort signal and profile
+   * @returns a Promise resolved with the path
+   */
+  public request (start: Vector3Like, end: Vector3Like, options: IPathRequestOptions): Promise<IPathRequestResult> {
+    const { filter, priority = 0, signal, profile } = options;
+    if (signal?.aborted) {
+      return Promise.reject(this._createAbortError("The path request was aborted."));
+    }
+    // validates the profile before queuing
+    this._getProfile(profile);
+
+    const key = `${profile ?? ""}|${filter ? this._getFilterId(filter) : 0}|${start.x},${start.y},${start.z}|${end.x},${end.y},${end.z}`;
+    const cached = this._cache.get(key);
+    if (cached) {
+      // most recently used last
+      this._cache.delete(key);
+      this._cache.set(key, cached);
+      return Promise.resolve(NavMeshPathQueue._ToResult(cached.path, cached.partial));
+    }
+
+    let request = this._requests.find((queued) => queued.key === key);
+    if (!request) {
+      request = {
+        key,
+        start: { x: start.x, y: start.y, z: start.z },
+        end: { x: end.x, y: end.y, z: end.z },
+        filter,
+        profile,
+        priority,
+        order: this._nextOrder++,
+        search: null,
+        startPosition: start,
+        endPosition: end,
+        waiters: [],
+      };
+      this._requests.push(request);
+    } else if (priority > request.priority) {
+      request.priority = priority;
+    }
+    this._requests.sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+    const queued = request;
+    return new Promise<IPathRequestResult>((resolve, reject) => {
+      const waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const item = queued.waiters.indexOf(waiter);
+          if (item > -1) {
+            queued.waiters.splice(item, 1);
+            // nobody waits for the path anymore
+            if (queued.waiters.length === 0) {
+              this._remove(queued);
+            }
+            reject(this._createAbortError("The path request was aborted."));
+          }
+        },
+      };
+      signal?.addEventListener("abort", waiter.onAbort, { once: true });
+      queued.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Searches the queued requests within the iteration and time budget
+   * @returns true when no request is left
+   */
+  public update (): boolean {
+    const startTime = PrecisionDate.Now;
+    let iterations = 0;
+    while (this._requests.length > 0 && iterations < this.maxIterations && PrecisionDate.Now - startTime < this.maxTime) {
+      const request = this._requests[0];
+      const { navMesh, navMeshQuery } = this._getProfile(request.profile);
+      // the navmesh was replaced since the search started
+      if (request.search && request.search.navMesh !== navMesh) {
+        request.search = null;
+      }
+      if (!request.search && !this._startSearch(request, navMesh, navMeshQuery)) {
+        continue;
+      }
+
+      const search = request.search!;
+      iterations += search.update(Math.min(iterationsPerSlice, this.maxIterations - iterations));
+      if (search.state === "invalid") {
+        request.search = null;
+      } else if (search.state === "done") {
+        const result = search.finalize();
+        // the polygons expanded by the previous slices may belong to a tile rebuilt since then
+        if (result.polys.every((ref) => navMesh.isValidPolyRef(ref))) {
+          this._complete(request, navMeshQuery, result);
+        } else {
+          request.search = null;
+        }
+      }
+    }
+    return this._requests.length === 0;
+  }
+
+  /**
+   * Forgets the cached results, called when the navmesh changes
+   */
+  public clearCache (): void {
+    this._cache.clear();
+  }
+
+  /**
+   * Rejects every queued request
+   * @param message reason of the rejection
+   */
+  public clear (message: string): void {
+    const requests = this._requests;
+    this._requests = [];
+    for (const request of requests) {
+      for (const waiter of request.waiters) {
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+        waiter.reject(this._createAbortError(message));
+      }
+    }
+    this._cache.clear();
+  }
+
+  private _startSearch (request: IQueuedPathRequest, navMesh: NavMesh, navMeshQuery: NavMeshQuery): boolean {
+    const filter = request.filter ?? navMeshQuery.defaultFilter;
+    const start = navMeshQuery.findNearestPoly(request.start, { filter });
+    const end = navMeshQuery.findNearestPoly(request.end, { filter });
+    if (!start.success || start.nearestRef === 0 || !end.success || end.nearestRef === 0) {
+      this._resolve(request, [], false);
+      return false;
+    }
+    request.startPosition = start.nearestPoint;
+    request.endPosition = end.nearestPoint;
+    request.search = new SlicedPathSearch(navMesh, filter, start.nearestRef, end.nearestRef, start.nearestPoint, end.nearestPoint);
+    return true;
+  }
+
+  private _complete (request: IQueuedPathRequest, navMeshQuery: NavMeshQuery, result: { polys: number[]; partial: boolean }): void {
+    // a partial path ends on the polygon closest to the end
+    let end = request.endPosition;
+    if (result.partial) {
+      const closest = navMeshQuery.closestPointOnPoly(result.polys[result.polys.length - 1], end);
+      end = closest.success ? closest.closestPoint : end;
+    }
+
+    const { success, straightPath, straightPathFlags, straightPathRefs, straightPathCount } = navMeshQuery.findStraightPath(request.startPosition, end, result.polys, {
+      maxStraightPathPoints,
+    });
+    const path: Vector3Like[] = [];
+    if (success) {
+      for (let i = 0; i < straightPathCount; i++) {
+        path.push({ x: straightPath.get(i * 3), y: straightPath.get(i * 3 + 1), z: straightPath.get(i * 3 + 2) });
+      }
+    }
+    straightPath.destroy();
+    straightPathFlags.destroy();
+    straightPathRefs.destroy();
+
+    this._cache.set(request.key, { path, partial: result.partial });
+    if (this._cache.size > this.cacheSize) {
+      this._cache.delete(this._cache.keys().next().value!);
+    }
+    this._resolve(request, path, result.partial);
+  }
+
+  private _resolve (request: IQueuedPathRequest, path: Vector3Like[], partial: boolean): void {
+    this._remove(request);
+    for (const waiter of request.waiters) {
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+      // each caller gets its own vectors
+      waiter.resolve(NavMeshPathQueue._ToResult(path, partial));
+    }
+  }
+
+  private _remove (request: IQueuedPathRequest): void {
+    const item = this._requests.indexOf(request);
+    if (item > -1) {
+      this._requests.splice(item, 1);
+    }
+  }
+
+  private _getFilterId (filter: QueryFilter): number {
+    let id = this._filterIds.get(filter);
+    if (id === undefined) {
+      id = this._nextFilterId++;
+      this._filterIds.set(filter, id);
+    }
+    return id;
+  }
+
+  private static _ToResult (path: Vector3Like[], partial: boolean): IPathRequestResult {
+    return { path: path.map((point) => new Vector3(point.x, point.y, point.z)), partial };
+  }
+}
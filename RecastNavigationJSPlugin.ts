@@ -1,1070 +1,5011 @@
 import type { ICrowd, IAgentParameters, INavMeshParameters, IObstacle, INavigationEnginePlugin } from "@babylonjs/core/Navigation/INavigationEngine";
 import { Logger } from "@babylonjs/core/Misc/logger";
+import { PrecisionDate } from "@babylonjs/core/Misc/precisionDate";
 import { VertexData } from "@babylonjs/core/Meshes/mesh.vertexData";
 import { Mesh } from "@babylonjs/core/Meshes/mesh";
 import type { Scene } from "@babylonjs/core/scene";
-import { Epsilon, Vector3, Matrix } from "@babylonjs/core/Maths/math";
-import type { TransformNode } from "@babylonjs/core/Meshes/transformNode";
+import { Epsilon, Vector3, Matrix, Quaternion } from "@babylonjs/core/Maths/math";
+import { BoundingBox } from "@babylonjs/core/Culling/boundingBox";
+import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
+import type { InstancedMesh } from "@babylonjs/core/Meshes/instancedMesh";
+import type { Geometry } from "@babylonjs/core/Meshes/geometry";
+import type { Node } from "@babylonjs/core/node";
+import "@babylonjs/core/Meshes/thinInstanceMesh";
 import type { Observer } from "@babylonjs/core/Misc/observable";
 import { Observable } from "@babylonjs/core/Misc/observable";
 import type { Nullable } from "@babylonjs/core/types";
 import { VertexBuffer } from "@babylonjs/core/Buffers/buffer";
-import { generateSoloNavMesh, generateTileCache } from "recast-navigation/generators";
-import { Crowd, CrowdAgent, exportNavMesh, getRandomSeed, importNavMesh, NavMesh, NavMeshQuery, setRandomSeed, TileCache } from "recast-navigation";
-
-// Adding Nullable
-//   export interface INavigationEnginePluginNullables {
-//     addCylinderObstacle (position: Vector3, radius: number, height: number): Nullable<IObstacle>;
-//     addBoxObstacle (position: Vector3, extent: Vector3, angle: number): Nullable<IObstacle>;
-// }
-// // declare module "@babylonjs/core/Navigation/INavigationEngine" {
-//   export interface INavigationEnginePlugin {
-//     addCylinderObstacle (position: Vector3, radius: number, height: number): Nullable<IObstacle>;
-//     addBoxObstacle (position: Vector3, extent: Vector3, angle: number): Nullable<IObstacle>;
-//   }
-// }
-
-// interface INavigationEnginePluginNullables extends INavigationEnginePlugin  {
-//   addCylinderObstacle (position: Vector3, radius: number, height: number): Nullable<IObstacle>;
-//   addBoxObstacle (position: Vector3, extent: Vector3, angle: number): Nullable<IObstacle>;
-// }
+import { getBoundingBox } from "recast-navigation/generators";
+import type { AddObstacleResult, CrowdAgentParams, Obstacle, OffMeshConnectionParams, RecastConfig, Vector3 as Vector3Like, Vector3Tuple } from "recast-navigation";
+import {
+  Crowd, CrowdAgent, Detour, exportNavMesh, exportTileCache, getRandomSeed, importNavMesh, importTileCache, NavMesh, NavMeshQuery, QueryFilter, setRandomSeed, statusToReadableString,
+  TileCache
+} from "recast-navigation";
+import type {
+  INavMeshBuildOutput, INavMeshBuildReport, INavMeshConvexVolumeParams, NavMeshBuildConfig, NavMeshBuildMode, NavMeshWorkerBuildStage, NavMeshWorkerRequest, NavMeshWorkerResponse
+} from "./RecastNavigationJSWorkerProtocol";
+import { NavMeshWorkerProtocolVersion } from "./RecastNavigationJSWorkerProtocol";
+import type { INavMeshBuildAreas, ITiledNavMeshLayout } from "./RecastNavigationJSNavMeshBuilder";
+import {
+  computeTiledNavMeshLayout, createTileCacheMeshProcess, exportTileCacheData, getNavMeshBuildOutput, getNavMeshOffMeshConnections, getTileCacheDataOffMeshConnections, getTileRange,
+  NavMeshBuildError, NavMeshBuilder
+} from "./RecastNavigationJSNavMeshBuilder";
+import type { ISmoothPathOptions } from "./RecastNavigationJSSmoothPath";
+import { computeSmoothPath } from "./RecastNavigationJSSmoothPath";
+import { findDistanceToWall, findPolysAroundShape, findRandomPointInPolys } from "./RecastNavigationJSPolyQueries";
+import type { INavMeshIslandData } from "./RecastNavigationJSConnectivity";
+import { NavMeshPolyGraph } from "./RecastNavigationJSConnectivity";
+import type { IPathRequestOptions, IPathRequestResult } from "./RecastNavigationJSPathQueue";
+import { NavMeshPathQueue } from "./RecastNavigationJSPathQueue";
+import { readNavigationState, writeNavigationState } from "./RecastNavigationJSState";
+import type { CrowdCommand } from "./RecastNavigationJSCrowdReplay";
+import type { ICrowdAgentCorridor } from "./RecastNavigationJSCrowdCorridor";
+import { readCrowdAgentCorridor } from "./RecastNavigationJSCrowdCorridor";
 
 /**
- * RecastJS navigation plugin
+ * INavigationEnginePlugin whose obstacle creation returns null when the obstacle could not be added
+ */
+export interface INavigationEnginePluginNullables extends Omit<INavigationEnginePlugin, "addCylinderObstacle" | "addBoxObstacle"> {
+  addCylinderObstacle (position: Vector3, radius: number, height: number): Nullable<IObstacle>;
+  addBoxObstacle (position: Vector3, extent: Vector3, angle: number): Nullable<IObstacle>;
+}
+
+/**
+ * Navmesh parameters with the settings specific to this plugin
  */
-export class RecastNavigationJSPlugin implements INavigationEnginePlugin {
+export interface IRecastNavMeshParameters extends INavMeshParameters {
   /**
-   * Reference to the Recast library
+   * how the navmesh is built. Defaults to "tiled" when tileSize is greater than 0, "solo" otherwise.
+   * "tileCache" is needed to add obstacles and requires a tileSize greater than 0
    */
-  public bjsRECAST: any = {};
+  buildMode?: NavMeshBuildMode;
+  /**
+   * maximum number of obstacles of a tile cache. Default is 128
+   */
+  maxObstacles?: number;
+  /**
+   * number of layers, or floors, expected in each tile of a tile cache. Default is 4
+   */
+  expectedLayersPerTile?: number;
+  /**
+   * off-mesh connections, like jumps, ladders or teleporters, linking two points of the navmesh.
+   * With a tileSize, the end of a connection must be in the tile of its start or in a neighbouring tile
+   */
+  offMeshConnections?: IOffMeshConnection[];
+  /**
+   * convex volumes giving an area type to the walkable surface they contain, for example water, doors or no-go zones,
+   * without splitting the geometry into separate meshes. Applied to every profile and to the tile rebuilds, see setConvexVolumes
+   */
+  convexVolumes?: INavMeshConvexVolume[];
+  /**
+   * additional navmeshes built from the same geometry, for agents of other sizes.
+   * Each profile overrides some navmesh parameters, usually walkableRadius, walkableHeight and walkableClimb.
+   * Not supported in the tileCache build mode
+   */
+  profiles?: { [name: string]: Partial<INavMeshParameters> };
+}
 
+/**
+ * Off-mesh connection linking two points of the navmesh that are not connected by its polygons
+ */
+export interface IOffMeshConnection {
   /**
-   * plugin name
+   * world position of the start of the connection
    */
-  public name: string = "RecastNavigationJSPlugin";
+  startPosition: Vector3;
+  /**
+   * world position of the end of the connection
+   */
+  endPosition: Vector3;
+  /**
+   * radius of the connection endpoints. An endpoint must be within this radius of the navmesh
+   */
+  radius: number;
+  /**
+   * true when agents can travel from the end to the start too
+   */
+  bidirectional: boolean;
+  /**
+   * name of the area type of the connection, see defineAreaType. Default is "walkable"
+   */
+  area?: string;
+  /**
+   * id given back by the crowd traversal events, for example to pick a jump or climb animation
+   */
+  userId: number;
+}
 
+/**
+ * Convex volume giving an area type to the walkable surface it contains
+ */
+export interface INavMeshConvexVolume {
   /**
-   * the first navmesh created. We might extend this to support multiple navmeshes
+   * outline of the volume on the XZ plane: a mesh or world positions, wrapped in their convex hull. The y of the positions is ignored
    */
-  public navMesh!: NavMesh;
-  private _navMeshQuery!: NavMeshQuery;
+  shape: Mesh | InstancedMesh | Vector3[];
+  /**
+   * world height of the bottom of the volume. Default is the lowest y of the shape
+   */
+  hmin?: number;
+  /**
+   * world height of the top of the volume. Default is the highest y of the shape
+   */
+  hmax?: number;
+  /**
+   * name of the area type of the surface inside the volume, see defineAreaType. An area type with flags 0 makes a no-go zone
+   */
+  area: string;
+}
 
-  private _maximumSubStepCount: number = 10;
-  private _timeStep: number = 1 / 60;
-  private _timeFactor: number = 1;
+/**
+ * Convex volume of the navmesh, as returned by getConvexVolumes
+ */
+export interface INavMeshResolvedConvexVolume extends INavMeshConvexVolume {
+  /**
+   * world positions of the corners of the convex outline, at the bottom of the volume
+   */
+  shape: Vector3[];
+  /**
+   * world height of the bottom of the volume
+   */
+  hmin: number;
+  /**
+   * world height of the top of the volume
+   */
+  hmax: number;
+}
 
-  private _tempVec1: any;
-  private _tempVec2: any;
+/**
+ * Corner of the straight path a crowd agent is steering along
+ */
+export interface ICrowdAgentCorner {
+  /**
+   * world position of the corner
+   */
+  position: Vector3;
+  /**
+   * combination of Detour.DT_STRAIGHTPATH_START, Detour.DT_STRAIGHTPATH_END and Detour.DT_STRAIGHTPATH_OFFMESH_CONNECTION.
+   * An off-mesh connection corner is the start of the connection
+   */
+  flags: number;
+}
 
-  private _tileCache?: TileCache;
+/**
+ * State change of a crowd agent
+ */
+export interface ICrowdAgentStateEvent {
+  /**
+   * index of the agent
+   */
+  agentIndex: number;
+  /**
+   * previous state, one of Detour.DT_CROWDAGENT_STATE_INVALID, DT_CROWDAGENT_STATE_WALKING and DT_CROWDAGENT_STATE_OFFMESH
+   */
+  previousState: number;
+  /**
+   * new state
+   */
+  state: number;
+}
 
-  private _worker: Nullable<Worker> = null;
+/**
+ * Crowd agent that made no progress toward its destination
+ */
+export interface ICrowdAgentStuckEvent {
+  /**
+   * index of the agent
+   */
+  agentIndex: number;
+  /**
+   * world position of the agent
+   */
+  position: Vector3;
+  /**
+   * destination given to agentGoto
+   */
+  destination: Vector3;
+  /**
+   * time without progress in seconds
+   */
+  duration: number;
+}
 
-  // TODO: Nullable?
-  private _positions: Float32Array = new Float32Array();
-  private _indices: Float32Array = new Float32Array();
+/**
+ * Path request of a crowd agent
+ */
+export interface ICrowdAgentPathEvent {
+  /**
+   * index of the agent
+   */
+  agentIndex: number;
+  /**
+   * destination given to agentGoto
+   */
+  destination: Vector3;
+  /**
+   * true when the crowd computed the path again because the previous one became invalid, false for a new destination
+   */
+  replanned: boolean;
+}
 
+/**
+ * Path of a crowd agent that ends before its destination
+ */
+export interface ICrowdAgentPartialPathEvent extends ICrowdAgentPathEvent {
   /**
-   * Initializes the recastJS plugin
-   * @param recastInjection can be used to inject your own recast reference
+   * world position where the path ends, the closest point to the destination the agent can reach
    */
-  public constructor() {
+  reachablePosition: Vector3;
+}
 
-    if (!this.isSupported()) {
-      Logger.Error("RecastJS is not available. Please make sure you included the js file.");
-      return;
-    }
-    this.setTimeStep();
+/**
+ * Traversal of an off-mesh connection by a crowd agent
+ */
+export interface IOffMeshConnectionEvent {
+  /**
+   * index of the agent
+   */
+  agentIndex: number;
+  /**
+   * user id of the connection
+   */
+  userId: number;
+  /**
+   * world position where the traversal starts. The end of a bidirectional connection when it is traveled backward
+   */
+  startPosition: Vector3;
+  /**
+   * world position where the traversal ends
+   */
+  endPosition: Vector3;
+  /**
+   * set it to true in onOffMeshConnectionStartObservable to stop the crowd from updating the agent transform until the traversal ends,
+   * so game code can move it with its own animation
+   */
+  skipTransformUpdate: boolean;
+}
 
-    this._tempVec1 = { x: 0, y: 0, z: 0 };
-    this._tempVec2 = { x: 0, y: 0, z: 0 };
-  }
+/**
+ * Area type of navmesh polygons, see defineAreaType
+ */
+export interface INavMeshAreaType {
+  /**
+   * name of the area type
+   */
+  name: string;
+  /**
+   * area id stored in the navmesh polygons, between 0 and 62
+   */
+  id: number;
+  /**
+   * travel cost multiplier used by default by the query filters
+   */
+  cost: number;
+  /**
+   * flags of the area polygons, matched against the include and exclude flags of the query filters
+   */
+  flags: number;
+}
 
+/**
+ * Options of a query filter, see createQueryFilter
+ */
+export interface INavMeshQueryFilterOptions {
   /**
-   * Set worker URL to be used when generating a new navmesh
-   * @param workerURL url string
-   * @returns boolean indicating if worker is created
+   * polygons must have at least one of these flags. Default is 0xffff
    */
-  public setWorkerURL (workerURL: string | URL): boolean {
-    if (window && window.Worker) {
-      this._worker = new Worker(workerURL, {
-        type: "module"
-      });
-      return true;
-    }
-    return false;
-  }
+  includeFlags?: number;
+  /**
+   * polygons must have none of these flags. Default is 0
+   */
+  excludeFlags?: number;
+  /**
+   * travel cost multiplier of some area types, by area type name. Other area types use the cost given to defineAreaType
+   */
+  areaCosts?: { [areaName: string]: number };
+}
 
-  public setWorker (worker: Worker): boolean {
-    if (window && window.Worker) {
-      this._worker = worker;
-      return true;
-    }
-    return false;
-  }
+/**
+ * Outcome of a navmesh query that can fail
+ */
+export interface INavMeshQueryResult {
+  /**
+   * false when the query failed, the other values are then meaningless
+   */
+  success: boolean;
+  /**
+   * Detour status of the query, readable with statusToReadableString from recast-navigation
+   */
+  status: number;
+}
 
+/**
+ * Result of findNearestPoly and getClosestPointWithResult
+ */
+export interface INavMeshNearestPolyResult extends INavMeshQueryResult {
   /**
-   * Set the time step of the navigation tick update.
-   * Default is 1/60.
-   * A value of 0 will disable fixed time update
-   * @param newTimeStep the new timestep to apply to this world.
+   * reference of the nearest polygon
    */
-  setTimeStep (newTimeStep: number = 1 / 60): void {
-    this._timeStep = newTimeStep;
-  }
+  polyRef: number;
+  /**
+   * closest point on the nearest polygon
+   */
+  point: Vector3;
+  /**
+   * true when the position is over the polygon, false when it is beside it
+   */
+  isOverPoly: boolean;
+}
 
+/**
+ * Result of findPolysAroundCircle and findPolysAroundShape
+ */
+export interface INavMeshPolysResult extends INavMeshQueryResult {
   /**
-   * Get the time step of the navigation tick update.
-   * @returns the current time step
+   * references of the polygons found, in travel cost order
    */
-  getTimeStep (): number {
-    return this._timeStep;
-  }
+  polyRefs: number[];
+  /**
+   * polygon each polygon was reached from, 0 for the start polygon
+   */
+  parentRefs: number[];
+  /**
+   * travel cost from the search center to each polygon
+   */
+  costs: number[];
+}
 
+/**
+ * Result of getPolyHeight
+ */
+export interface INavMeshPolyHeightResult extends INavMeshQueryResult {
   /**
-   * If delta time in navigation tick update is greater than the time step
-   * a number of sub iterations are done. If more iterations are need to reach deltatime
-   * they will be discarded.
-   * A value of 0 will set to no maximum and update will use as many substeps as needed
-   * @param newStepCount the maximum number of iterations
+   * height of the polygon surface at the position
    */
-  setMaximumSubStepCount (newStepCount: number = 10): void {
-    this._maximumSubStepCount = newStepCount;
-  }
+  height: number;
+}
 
+/**
+ * Result of findDistanceToWall
+ */
+export interface INavMeshWallDistanceResult extends INavMeshQueryResult {
   /**
-   * Get the maximum number of iterations per navigation tick update
-   * @returns the maximum number of iterations
+   * true when a wall is within the search radius
    */
-  getMaximumSubStepCount (): number {
-    return this._maximumSubStepCount;
-  }
+  hit: boolean;
+  /**
+   * distance to the nearest wall, the search radius when no wall is hit
+   */
+  distance: number;
+  /**
+   * closest point on the nearest wall
+   */
+  point: Vector3;
+  /**
+   * normal of the nearest wall, pointing toward the position. Zero when no wall is hit
+   */
+  normal: Vector3;
+}
 
+/**
+ * Result of getRandomPointInPolys and getRandomPointAroundWithResult
+ */
+export interface INavMeshRandomPointResult extends INavMeshQueryResult {
   /**
-   * Time factor applied when updating crowd agents (default 1). A value of 0 will pause crowd updates.
-   * @param value the time factor applied at update
+   * reference of the polygon the point is in
    */
-  public set timeFactor (value: number) {
-    this._timeFactor = Math.max(value, 0);
-  }
+  polyRef: number;
+  /**
+   * the random point
+   */
+  point: Vector3;
+}
 
+/**
+ * Result of a navmesh raycast, see raycast
+ */
+export interface INavMeshRaycastResult {
   /**
-   * Get the time factor used for crowd agent update
-   * @returns the time factor
+   * true when a wall, or a polygon rejected by the query filter, stops the ray before its end
    */
-  public get timeFactor (): number {
-    return this._timeFactor;
-  }
+  hit: boolean;
+  /**
+   * fraction of the segment travelled before the hit, between 0 and 1. 1 when nothing is hit
+   */
+  fraction: number;
+  /**
+   * world position where the ray stops, the end position when nothing is hit
+   */
+  point: Vector3;
+  /**
+   * normal of the wall hit, pointing toward the ray start. Zero when nothing is hit
+   */
+  normal: Vector3;
+  /**
+   * references of the polygons visited by the ray, from the start polygon
+   */
+  polygons: number[];
+}
 
+/**
+ * Agent parameters with the settings specific to this plugin
+ */
+export interface IRecastAgentParameters extends IAgentParameters {
   /**
-   * Creates a navigation mesh
-   * @param meshes array of all the geometry used to compute the navigation mesh
-   * @param parameters bunch of parameters used to filter geometry
-   * @param completion callback when data is available from the worker. Not used without a worker
+   * index of the crowd query filter used by the agent, between 0 and 15. Configure it with RecastJSCrowdSimulation.setFilter. Default is 0
    */
-  createNavMesh (meshes: Array<Mesh>, parameters: INavMeshParameters, completion?: (navmeshData: Uint8Array) => void): void {
-    if (this._worker && !completion) {
-      Logger.Warn("A worker is avaible but no completion callback. Defaulting to blocking navmesh creation");
-    } else if (!this._worker && completion) {
-      Logger.Warn("A completion callback is avaible but no worker. Defaulting to blocking navmesh creation");
-    }
+  queryFilterType?: number;
+  /**
+   * how the crowd updates the agent transform
+   */
+  transformOptions?: ICrowdAgentTransformOptions;
+  /**
+   * what the agent does when it arrives at a destination. Default is "stop"
+   */
+  arrivalMode?: CrowdAgentArrivalMode;
+  /**
+   * distance to the destination under which an agent in the "slowDown" arrival mode starts slowing down. Default is 2
+   */
+  slowDownRadius?: number;
+}
 
-    if (meshes.length === 0) {
-      throw new Error("At least one mesh is needed to create the nav mesh.")
-    }
-
-    let index: number;
-    let tri: number;
-    let pt: number;
+/**
+ * What a crowd agent does when it arrives at a destination.
+ * "stop" stops exactly on the destination, "slowDown" slows down progressively within the slow down radius before stopping,
+ * "continue" heads to the next waypoint of its sequence as soon as it is in reach radius, without slowing down
+ */
+export type CrowdAgentArrivalMode = "stop" | "slowDown" | "continue";
 
+/**
+ * Direction a crowd agent transform turns to face.
+ * "velocity" faces the direction the agent moves in, "corner" faces the next corner of its path, "none" leaves the rotation untouched
+ */
+export type CrowdAgentOrientation = "none" | "velocity" | "corner";
 
+/**
+ * How the crowd updates an agent transform on each frame
+ */
+export interface ICrowdAgentTransformOptions {
+  /**
+   * direction the transform turns to face. Default is "none"
+   */
+  orientation?: CrowdAgentOrientation;
+  /**
+   * maximum turn speed in radians per second. Default is 2 * Math.PI
+   */
+  turnRate?: number;
+  /**
+   * true to tilt the transform along the navmesh slope, false to only turn it around the Y axis. Default is false
+   */
+  alignToSlope?: boolean;
+  /**
+   * added to the agent height so the model pivot sits on the navmesh. Default is 0
+   */
+  heightOffset?: number;
+  /**
+   * time in seconds the transform takes to catch up with about two thirds of an agent move, hiding small jitter. Default is 0, no smoothing
+   */
+  positionSmoothing?: number;
+}
 
-    const positions = Float32Array.from(meshes[0].getVerticesData(VertexBuffer.PositionKind, false, false) ?? []);
-    const indices = Float32Array.from(meshes[0].getIndices() ?? [])
+/**
+ * State of a crowd agent, see RecastJSCrowdSimulation.snapshot
+ */
+export interface ICrowdAgentSimulationState {
+  /**
+   * agent index returned by addAgent
+   */
+  agentIndex: number;
+  /**
+   * world position of the agent on the navmesh
+   */
+  position: Vector3Tuple;
+  /**
+   * velocity of the agent
+   */
+  velocity: Vector3Tuple;
+  /**
+   * velocity the agent steers towards
+   */
+  desiredVelocity: Vector3Tuple;
+  /**
+   * Detour parameters of the agent
+   */
+  parameters: Omit<CrowdAgentParams, "userData">;
+  /**
+   * move request of the agent: a world position, or a velocity. Null when the agent has no request or its request failed
+   */
+  moveTarget: Nullable<{ type: "position" | "velocity"; value: Vector3Tuple }>;
+  /**
+   * reach radius
+   */
+  reachRadius: number;
+  /**
+   * destination given to agentGoto
+   */
+  destination: Vector3Tuple;
+  /**
+   * true until onReachTargetObservable fires for the destination
+   */
+  destinationArmed: boolean;
+  /**
+   * start of the off-mesh connection ending the agent corridor
+   */
+  offMeshCorner: Nullable<Vector3Tuple>;
+  /**
+   * off-mesh connection the agent is traversing
+   */
+  offMeshConnection: Nullable<{ userId: number; startPosition: Vector3Tuple; endPosition: Vector3Tuple; skipTransformUpdate: boolean }>;
+  /**
+   * agent state after the last crowd update
+   */
+  state: number;
+  /**
+   * agent move request state after the last crowd update
+   */
+  targetState: number;
+  /**
+   * agent position at the start of the stuck detection window
+   */
+  progressPosition: Vector3Tuple;
+  /**
+   * time spent by the agent without progress, in seconds
+   */
+  noProgressTime: number;
+  /**
+   * how the agent transform is updated
+   */
+  transformOptions: Required<ICrowdAgentTransformOptions>;
+  /**
+   * orientation of the agent transform around the Y axis, in radians
+   */
+  yaw: number;
+  /**
+   * agent position before the last simulation step
+   */
+  previousPosition: Vector3Tuple;
+  /**
+   * arrival mode and slow down radius
+   */
+  arrival: { mode: CrowdAgentArrivalMode; slowDownRadius: number };
+  /**
+   * maximum speed, before the "slowDown" arrival mode scales it down
+   */
+  maxSpeed: number;
+  /**
+   * waypoint sequence given to agentGotoSequence, null when the agent follows no sequence
+   */
+  waypoints: Nullable<{ points: Vector3Tuple[]; loop: boolean; current: number; waitingToStop: boolean }>;
+}
 
-    this._positions = positions;
+/**
+ * State of a crowd, see RecastJSCrowdSimulation.snapshot
+ */
+export interface ICrowdSimulationState {
+  /**
+   * navmesh profile the agents move on
+   */
+  profile: string;
+  /**
+   * the maximum agent count in the crowd
+   */
+  maxAgents: number;
+  /**
+   * the maximum radius an agent can have
+   */
+  maxAgentRadius: number;
+  /**
+   * options of each crowd query filter
+   */
+  filters: INavMeshQueryFilterOptions[];
+  /**
+   * simulation time not stepped yet
+   */
+  accumulator: number;
+  /**
+   * position of the last update between the last two simulation steps
+   */
+  interpolationFactor: number;
+  /**
+   * stuck detection time of the crowd
+   */
+  stuckDetectionTime: number;
+  /**
+   * stuck detection distance of the crowd
+   */
+  stuckDetectionDistance: number;
+  /**
+   * the agents, in the order of the crowd agents
+   */
+  agents: ICrowdAgentSimulationState[];
+}
 
-    this._indices = indices;
+/**
+ * What loadState restored besides the navmesh
+ */
+export interface INavigationStateLoadResult<T extends RecastJSCrowdSimulation = RecastJSCrowdSimulation> {
+  /**
+   * the obstacles, in the order they were added. Their carving is already applied to the navmesh
+   */
+  obstacles: RecastJSObstacle[];
+  /**
+   * the crowd, null when the state was saved without one. With a scene, each agent gets a new transform node
+   */
+  crowd: Nullable<T>;
+}
 
-    // const indices = Float32Array.from(this._indices);
-    // const positions = Float32Array.from(this._positions);
+/**
+ * Change of a navmesh, see RecastNavigationJSPlugin.onNavMeshChangedObservable
+ */
+export interface INavMeshChangedEvent {
+  /**
+   * the changed profile, null when the navmeshes of every profile changed
+   */
+  profile: Nullable<string>;
+  /**
+   * world space bounds of the rebuilt tiles, vertically the bounds of the changed geometry. Null when the whole navmesh may have changed
+   */
+  bounds: Nullable<BoundingBox>;
+}
 
+/**
+ * Failed rebuild of the tiles of navigation sources, see RecastNavigationJSPlugin.onNavigationSourceErrorObservable
+ */
+export interface INavigationSourceErrorEvent {
+  /**
+   * the changed meshes whose tiles were being rebuilt. Their tiles are rebuilt again with the next change of a navigation source
+   */
+  meshes: Array<Mesh | InstancedMesh>;
+  /**
+   * the error thrown while reading the meshes or building a tile
+   */
+  error: unknown;
+}
 
+/**
+ * Options of an asynchronous navmesh build
+ */
+export interface INavMeshBuildOptions {
+  /**
+   * called each time the worker reports a new build stage. progress is between 0 and 1
+   */
+  onProgress?: (stage: NavMeshWorkerBuildStage, progress: number) => void;
+  /**
+   * aborts the build. The returned Promise is rejected with an AbortError
+   */
+  signal?: AbortSignal;
+}
 
-    // const meshesToMerge: Mesh[] = [];
+/**
+ * A navmesh build waiting for the worker response
+ */
+interface IPendingWorkerBuild {
+  resolve: (navMeshData: Uint8Array, profiles: Array<{ name: string; navMeshData: Uint8Array }>, report: INavMeshBuildReport) => void;
+  reject: (reason: Error) => void;
+  onProgress?: (stage: NavMeshWorkerBuildStage, progress: number) => void;
+}
 
-    // for (const mesh of meshes) {
-    //   const positionAttribute = mesh.geometry.attributes
-    //     .position as BufferAttribute;
+/**
+ * World space bounds of the geometry merged from a mesh
+ */
+type MeshBounds = [min: Vector3Tuple, max: Vector3Tuple];
 
-    //   if (!positionAttribute || positionAttribute.itemSize !== 3) {
-    //     continue;
-    //   }
+/**
+ * Geometry and config of a navmesh build, applied to the plugin once the navmesh is in use
+ */
+interface INavMeshBuildInput {
+  meshes: Array<Mesh | InstancedMesh>;
+  meshBounds: Map<Mesh | InstancedMesh, MeshBounds>;
+  positions: Float32Array;
+  indices: Uint32Array;
+  areas: INavMeshBuildAreas;
+  mode: NavMeshBuildMode;
+  config: NavMeshBuildConfig;
+  profiles: Array<{ name: string; config: NavMeshBuildConfig }>;
+}
 
-    //   let meshToMerge = mesh;
-    //   const index: ArrayLike<number> | undefined = mesh.geometry.getIndex()?.array;
+/**
+ * Obstacle saved by saveState
+ */
+type NavigationStateObstacle =
+  | { type: "cylinder"; position: Vector3Tuple; radius: number; height: number }
+  | { type: "box"; position: Vector3Tuple; extent: Vector3Tuple; angle: number };
 
-    //   if (index === undefined) {
-    //     meshToMerge = meshToMerge.clone();
-    //     meshToMerge.geometry = mesh.geometry.clone();
+/**
+ * JSON description of a navigation state, the navmeshes are stored in binary chunks
+ */
+interface INavigationStateDescription {
+  config: NavMeshBuildConfig;
+  areaTypes: INavMeshAreaType[];
+  offMeshConnections: OffMeshConnectionParams[];
+  navMesh: number;
+  tileCache: boolean;
+  obstacles: NavigationStateObstacle[];
+  profiles: Array<{ name: string; config: NavMeshBuildConfig; navMesh: number }>;
+  crowd: Nullable<ICrowdSimulationState>;
+}
 
-    //     // this will become indexed when merging with other meshes
-    //     const ascendingIndex: number[] = [];
-    //     for (let i = 0; i < positionAttribute.count; i++) {
-    //       ascendingIndex.push(i);
-    //     }
+/**
+ * Islands of a navmesh computed for a query filter, kept until the navmesh changes
+ */
+interface INavMeshConnectivity {
+  navMesh: NavMesh;
+  filter: QueryFilter;
+  graph: NavMeshPolyGraph;
+  islandOf: number[];
+  islands: INavMeshIslandData[];
+  reachableIslands: Map<number, Set<number>>;
+}
 
-    //     meshToMerge.geometry.setIndex(ascendingIndex);
-    //   }
+/**
+ * Navmesh of a profile, built from the same geometry as the navmesh of the plugin
+ */
+interface INavMeshProfile {
+  navMesh: NavMesh;
+  navMeshQuery: NavMeshQuery;
+  config: NavMeshBuildConfig;
+  tiledLayout: Nullable<ITiledNavMeshLayout>;
+}
 
-    //   meshesToMerge.push(meshToMerge);
-    // }
+/**
+ * Navmesh whose tiles are rebuilt, with the config and layout it was built with
+ */
+interface ITileRebuildTarget {
+  navMesh: NavMesh;
+  config: NavMeshBuildConfig;
+  layout: ITiledNavMeshLayout;
+}
 
-    // const mergedPositions: number[] = [];
-    // const mergedIndices: number[] = [];
+/**
+ * Tiles left to rebuild after a change of the navmesh geometry, built a few at a time
+ */
+interface ITileRebuild {
+  builder: Nullable<NavMeshBuilder>;
+  target: Nullable<ITileRebuildTarget>;
+  tiles: Array<{ target: ITileRebuildTarget; tx: number; ty: number }>;
+  next: number;
+  tileCount: number;
+  min: Vector3;
+  max: Vector3;
+}
 
-    // const positionToIndex: { [hash: string]: number } = {};
-    // let indexCounter = 0;
+/**
+ * Mesh watched by the plugin, see RecastNavigationJSPlugin.addNavigationSource
+ */
+interface INavigationSource {
+  worldMatrix: Matrix;
+  geometry: Nullable<Geometry>;
+  worldMatrixObserver: Nullable<Observer<TransformNode>>;
+  disposeObserver: Nullable<Observer<Node>>;
+}
 
-    // for (const mesh of meshesToMerge) {
-    //   mesh.updateMatrixWorld();
+/**
+ * Geometry of watched meshes, its onGeometryUpdated callback is chained to the previous one
+ */
+interface IWatchedGeometry {
+  meshes: Set<Mesh | InstancedMesh>;
+  previous: Nullable<(geometry: Geometry, kind?: string) => void>;
+  callback: (geometry: Geometry, kind?: string) => void;
+}
 
-    //   const positions = mesh.geometry.attributes.position.array;
-    //   const index = mesh.geometry.getIndex()!.array;
+/**
+ * RecastJS navigation plugin
+ */
+export class RecastNavigationJSPlugin implements INavigationEnginePluginNullables {
+  /**
+   * Reference to the Recast library
+   */
+  public bjsRECAST: any = {};
 
-    //   for (let i = 0; i < index.length; i++) {
-    //     const pt = index[i] * 3;
+  /**
+   * plugin name
+   */
+  public name: string = "RecastNavigationJSPlugin";
 
-    //     const pos = tmpVec3.set(
-    //       positions[pt],
-    //       positions[pt + 1],
-    //       positions[pt + 2]
-    //     );
-    //     mesh.localToWorld(pos);
+  /**
+   * the navmesh of the default profile. The navmeshes of the other profiles are returned by getNavMesh
+   */
+  public navMesh!: NavMesh;
+  private _navMeshQuery!: NavMeshQuery;
+  private _profiles = new Map<string, INavMeshProfile>();
+  private _connectivity = new Map<string, INavMeshConnectivity>();
+  private _pathQueue = new NavMeshPathQueue((profile) => this._getProfile(profile), (message) => RecastNavigationJSPlugin._CreateAbortError(message));
+  private _pathRequestScene: Nullable<Scene> = null;
+  private _pathRequestObserver: Nullable<Observer<Scene>> = null;
 
-    //     const key = `${pos.x}_${pos.y}_${pos.z}`;
-    //     let idx = positionToIndex[key];
+  private _maximumSubStepCount: number = 10;
+  private _timeStep: number = 1 / 60;
+  private _timeFactor: number = 1;
 
-    //     if (!idx) {
-    //       positionToIndex[key] = idx = indexCounter;
-    //       mergedPositions.push(pos.x, pos.y, pos.z);
-    //       indexCounter++;
-    //     }
+  private _tempVec1: any;
+  private _tempVec2: any;
 
-    //     mergedIndices.push(idx);
-    //   }
-    // }
+  private _areaTypes = new Map<string, INavMeshAreaType>();
+  private _areaFlags: number[] = [];
+  private _meshAreaTypes = new Map<Mesh | InstancedMesh, INavMeshAreaType>();
+  private _offMeshConnections: OffMeshConnectionParams[] = [];
 
-    // return [Float32Array.from(mergedPositions), Uint32Array.from(mergedIndices)];
-
-
-    // let offset = 0;
-    // for (index = 0; index < meshes.length; index++) {
-    //   if (meshes[index]) {
-    //     const mesh = meshes[index];
-
-    //     const meshIndices = mesh.getIndices();
-    //     if (!meshIndices) {
-    //       continue;
-    //     }
-    //     const meshPositions = mesh.getVerticesData(VertexBuffer.PositionKind, false, false);
-    //     if (!meshPositions) {
-    //       continue;
-    //     }
-
-    //     const worldMatrices = [];
-    //     const worldMatrix = mesh.computeWorldMatrix(true);
-
-    //     if (mesh.hasThinInstances) {
-    //       const thinMatrices = (mesh as Mesh).thinInstanceGetWorldMatrices();
-    //       for (let instanceIndex = 0; instanceIndex < thinMatrices.length; instanceIndex++) {
-    //         const tmpMatrix = new Matrix();
-    //         const thinMatrix = thinMatrices[instanceIndex];
-    //         thinMatrix.multiplyToRef(worldMatrix, tmpMatrix);
-    //         worldMatrices.push(tmpMatrix);
-    //       }
-    //     } else {
-    //       worldMatrices.push(worldMatrix);
-    //     }
-
-    //     for (let matrixIndex = 0; matrixIndex < worldMatrices.length; matrixIndex++) {
-    //       const wm = worldMatrices[matrixIndex];
-    //       for (tri = 0; tri < meshIndices.length; tri++) {
-    //         indices.push(meshIndices[tri] + offset);
-    //       }
-
-    //       const transformed = Vector3.Zero();
-    //       const position = Vector3.Zero();
-    //       for (pt = 0; pt < meshPositions.length; pt += 3) {
-    //         Vector3.FromArrayToRef(meshPositions, pt, position);
-    //         Vector3.TransformCoordinatesToRef(position, wm, transformed);
-    //         positions.push(transformed.x, transformed.y, transformed.z);
-    //       }
-
-    //       offset += meshPositions.length / 3;
-    //     }
-    //   }
-    // }
+  private _tileCache?: TileCache;
+  private _tileCacheUpToDate = true;
+  private _obstacles = new Set<RecastJSObstacle>();
+  private _pendingObstacles = new Set<RecastJSObstacle>();
+  // requests queued since the tile cache was last up to date, the queue may be full from MaxObstacleRequests on
+  private _obstacleRequestCount = 0;
+  // obstacle requests that did not fit in the tile cache request queue, retried by updateTileCache
+  private _deferredObstacles = new Set<RecastJSObstacle>();
+  private _deferredRemovals: Obstacle[] = [];
+  private _tileCacheScene: Nullable<Scene> = null;
+  private _tileCacheObserver: Nullable<Observer<Scene>> = null;
 
+  private _worker: Nullable<Worker> = null;
+  private _ownsWorker = false;
+  private _workerRequestId = 0;
+  private _pendingWorkerBuilds = new Map<number, IPendingWorkerBuild>();
+  private _lastBuildReport: Nullable<INavMeshBuildReport> = null;
+
+  private static readonly _RecastConfigKeys: Array<keyof INavMeshParameters & keyof RecastConfig> = [
+    "cs", "ch", "walkableSlopeAngle", "walkableHeight", "walkableClimb", "walkableRadius", "maxEdgeLen", "maxSimplificationError",
+    "minRegionArea", "mergeRegionArea", "maxVertsPerPoly", "detailSampleDist", "detailSampleMaxError", "borderSize", "tileSize",
+  ];
+  // size of the dtTileCache request queue, emptied once the tile cache is up to date
+  private static readonly _MaxObstacleRequests = 64;
+
+  private _navMeshConfig: NavMeshBuildConfig = {};
+  private _sourceMeshes: Array<Mesh | InstancedMesh> = [];
+  private _sourceMeshBounds = new Map<Mesh | InstancedMesh, MeshBounds>();
+  private _tiledLayout: Nullable<ITiledNavMeshLayout> = null;
+  private _tileRebuild: Nullable<ITileRebuild> = null;
+
+  private _navigationSources = new Map<Mesh | InstancedMesh, INavigationSource>();
+  private _watchedGeometries = new Map<Geometry, IWatchedGeometry>();
+  private _changedNavigationSources = new Set<Mesh | InstancedMesh>();
+  private _rebuiltNavigationSources: Array<Mesh | InstancedMesh> = [];
+  // meshes and regions of a failed rebuild, rebuilt again with the next change
+  private _failedNavigationSources: Array<Mesh | InstancedMesh> = [];
+  private _failedNavigationSourceRegions: MeshBounds[] = [];
+  private _navigationSourceChangeTime = 0;
+  private _navigationSourceDebounceTime = 250;
+  private _navigationSourceMaxTime = 4;
+  private _navigationSourceScene: Nullable<Scene> = null;
+  private _navigationSourceObserver: Nullable<Observer<Scene>> = null;
 
-    // TODO:
-    // const rc = new this.bjsRECAST.rcConfig();
-    // rc.cs = parameters.cs;
-    // rc.ch = parameters.ch;
-    // rc.borderSize = parameters.borderSize ? parameters.borderSize : 0;
-    // rc.tileSize = parameters.tileSize ? parameters.tileSize : 0;
-    // rc.walkableSlopeAngle = parameters.walkableSlopeAngle;
-    // rc.walkableHeight = parameters.walkableHeight;
-    // rc.walkableClimb = parameters.walkableClimb;
-    // rc.walkableRadius = parameters.walkableRadius;
-    // rc.maxEdgeLen = parameters.maxEdgeLen;
-    // rc.maxSimplificationError = parameters.maxSimplificationError;
-    // rc.minRegionArea = parameters.minRegionArea;
-    // rc.mergeRegionArea = parameters.mergeRegionArea;
-    // rc.maxVertsPerPoly = parameters.maxVertsPerPoly;
-    // rc.detailSampleDist = parameters.detailSampleDist;
-    // rc.detailSampleMaxError = parameters.detailSampleMaxError;
-    if (this._worker && completion) {
-      // spawn worker and send message
-      const config = {
-        cs: 0.05,
-        ch: 0.2,
-      };
-      this._worker.postMessage({ positions, indices, config }, [
-        positions.buffer,
-        indices.buffer,
-      ]);
-      this._worker.onmessage = (e) => {
-        this.buildFromNavmeshData(e.data);
-        completion(e.data);
-
-        this._navMeshQuery = new NavMeshQuery(this.navMesh)
-      };
-    } else {
-      // blocking calls
+  /**
+   * Fires once the navmesh reflects obstacles added, moved, resized or removed since the last notification.
+   * Queries and crowds see the carved navmesh from then on
+   */
+  public onObstaclesAppliedObservable = new Observable<RecastJSObstacle[]>();
 
+  /**
+   * Fires after a navmesh was replaced or changed in place: new navmesh, rebuilt tiles, carved obstacles or pruned polygons.
+   * Queries and crowds see the changed navmesh from then on
+   */
+  public onNavMeshChangedObservable = new Observable<INavMeshChangedEvent>();
 
+  /**
+   * Fires when the tiles of changed navigation sources could not be rebuilt. The tiles rebuilt before the error are kept
+   */
+  public onNavigationSourceErrorObservable = new Observable<INavigationSourceErrorEvent>();
 
-      if (!positions || !indices) {
-        throw new Error("Unable to get nav mesh. No vertices or indices.");
+  /**
+   * Fires when a worker build started by createNavMesh with a completion callback fails, the callback is not called.
+   * The error is a NavMeshBuildError with the failure code, stage and Recast logs, unless the built navmesh could not be loaded
+   */
+  public onNavMeshBuildErrorObservable = new Observable<Error>();
 
-      }
+  /**
+   * Name of the area type of the polygons built from meshes without an area type
+   */
+  public static readonly DefaultAreaType = "walkable";
 
-      const { success, navMesh } = generateSoloNavMesh(positions, indices);
-      if (!success) {
-        throw new Error("Unable to generateSoloNavMesh");
-      }
+  /**
+   * Name of the profile of the navmesh built from the navmesh parameters, see IRecastNavMeshParameters.profiles
+   */
+  public static readonly DefaultProfile = "default";
 
-      this.navMesh = navMesh;
+  /**
+   * Number of crowd query filters, see RecastJSCrowdSimulation.setFilter
+   */
+  public static readonly MaxQueryFilterTypes = 16;
 
-      this._navMeshQuery = new NavMeshQuery(navMesh)
-    }
-  }
+  private static readonly _MaxAreaId = 62;
 
   /**
-   * Create a navigation mesh debug mesh
-   * @param scene is where the mesh will be added
-   * @returns debug display mesh
+   * Initializes the recastJS plugin
+   * @param recastInjection can be used to inject your own recast reference
    */
-  createDebugNavMesh (scene: Scene): Mesh {
-    // let tri: number;
-    // let pt: number;
-    const [positions, indices] = this.navMesh.getDebugNavMesh();
+  public constructor() {
 
-    // for (tri = 0; tri < triangleCount * 3; tri++) {
-    //   indices.push(tri);
-    // }
-    // for (tri = 0; tri < triangleCount; tri++) {
-    //   for (pt = 0; pt < 3; pt++) {
-    //     const point = debugNavMesh.getTriangle(tri).getPoint(pt);
-    //     positions.push(point.x, point.y, point.z);
-    //   }
-    // }
+    if (!this.isSupported()) {
+      Logger.Error("RecastJS is not available. Please make sure you included the js file.");
+      return;
+    }
+    this.setTimeStep();
 
-    const mesh = new Mesh("NavMeshDebug", scene);
-    const vertexData = new VertexData();
+    this._tempVec1 = { x: 0, y: 0, z: 0 };
+    this._tempVec2 = { x: 0, y: 0, z: 0 };
 
-    vertexData.indices = indices;
-    vertexData.positions = positions;
-    vertexData.applyToMesh(mesh, false);
-    return mesh;
+    this.defineAreaType(RecastNavigationJSPlugin.DefaultAreaType);
   }
 
   /**
-   * Get a navigation mesh constrained position, closest to the parameter position
-   * @param position world position
-   * @returns the closest point to position constrained by the navigation mesh
+   * Defines an area type, or updates the cost and flags of an existing one.
+   * Give meshes an area type with setMeshAreaType before building the navmesh.
+   * The flags are given to the polygons when they are built, the cost applies right away to the default query filter
+   * and to the filters created afterwards
+   * @param name name of the area type, for example "road", "grass", "water" or "door"
+   * @param options travel cost multiplier, default is 1, and polygon flags, default is 1
+   * @param options.cost travel cost multiplier
+   * @param options.flags polygon flags
+   * @returns the area type
    */
-  getClosestPoint (position: Vector3): Vector3 {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    const ret = this._navMeshQuery.findClosestPoint(this._tempVec1);
-    const pr = new Vector3(ret.point.x, ret.point.y, ret.point.z);
-    return pr;
+  public defineAreaType (name: string, options: { cost?: number; flags?: number } = {}): INavMeshAreaType {
+    const { cost = 1, flags = 1 } = options;
+    if (!(cost > 0) || !isFinite(cost)) {
+      throw new Error(`Invalid area type ${name}: cost must be a finite number greater than 0, got ${cost}.`);
+    }
+    if (!Number.isInteger(flags) || flags < 0 || flags > 0xffff) {
+      throw new Error(`Invalid area type ${name}: flags must be an integer between 0 and 0xffff, got ${flags}.`);
+    }
+
+    let areaType = this._areaTypes.get(name);
+    if (!areaType) {
+      const id = this._areaTypes.size;
+      if (id > RecastNavigationJSPlugin._MaxAreaId) {
+        throw new Error(`Unable to define area type ${name}: at most ${RecastNavigationJSPlugin._MaxAreaId + 1} area types can be defined.`);
+      }
+      areaType = { name, id, cost, flags };
+      this._areaTypes.set(name, areaType);
+    }
+    areaType.cost = cost;
+    areaType.flags = flags;
+    // the tile cache mesh process reads this array when tiles are rebuilt
+    this._areaFlags[areaType.id] = flags;
+
+    if (this._navMeshQuery) {
+      this._navMeshQuery.defaultFilter.setAreaCost(areaType.id, cost);
+    }
+    // the cached paths were searched with the previous costs
+    this._pathQueue.clearCache();
+    return areaType;
   }
 
   /**
-   * Get a navigation mesh constrained position, closest to the parameter position
-   * @param position world position
-   * @param result output the closest point to position constrained by the navigation mesh
+   * Gets an area type defined with defineAreaType
+   * @param name name of the area type
+   * @returns the area type, null if it is not defined
    */
-  getClosestPointToRef (position: Vector3, result: Vector3): void {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    const ret = this._navMeshQuery.findClosestPoint(this._tempVec1);
-    result.set(ret.point.x, ret.point.y, ret.point.z);
+  public getAreaType (name: string): Nullable<INavMeshAreaType> {
+    return this._areaTypes.get(name) ?? null;
   }
 
   /**
-   * Get a navigation mesh constrained position, within a particular radius
-   * @param position world position
-   * @param maxRadius the maximum distance to the constrained world position
-   * @returns the closest point to position constrained by the navigation mesh
+   * Sets the area type of the polygons built from a mesh. Applied by the next navmesh build or tile rebuild
+   * @param mesh mesh given to createNavMesh
+   * @param areaName name of an area type defined with defineAreaType
    */
-  getRandomPointAround (position: Vector3, maxRadius: number): Vector3 {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    const ret = this._navMeshQuery.findRandomPointAroundCircle(this._tempVec1, maxRadius);
-    const pr = new Vector3(ret.randomPoint.x, ret.randomPoint.y, ret.randomPoint.z);
-    return pr;
+  public setMeshAreaType (mesh: Mesh | InstancedMesh, areaName: string): void {
+    const areaType = this._areaTypes.get(areaName);
+    if (!areaType) {
+      throw new Error(`Unknown area type ${areaName}. Define it with defineAreaType first.`);
+    }
+    if (areaType.id === 0) {
+      this._meshAreaTypes.delete(mesh);
+    } else {
+      this._meshAreaTypes.set(mesh, areaType);
+    }
+  }
+
+  /**
+   * Replaces the convex volumes of the navmesh and rebuilds the tiles touched by the previous and the new volumes.
+   * The navmesh and the navmeshes of the profiles are updated in place: queries and crowds keep working. Only available in the tiled build mode
+   * @param volumes the convex volumes, applied in order so the last volume wins where they overlap
+   * @returns the number of rebuilt tiles
+   */
+  public setConvexVolumes (volumes: INavMeshConvexVolume[]): number {
+    if (!this._tiledLayout) {
+      throw new Error("Convex volumes can only be changed on a navmesh created in the tiled build mode.");
+    }
+    const convexVolumes = this._getConvexVolumeParams(volumes, (valid, message) => {
+      if (!valid) {
+        throw new Error(`Invalid convex volumes: ${message}.`);
+      }
+    });
+
+    const regions = (this._navMeshConfig.convexVolumes ?? []).concat(convexVolumes).map(({ vertices, hmin, hmax }) => {
+      const bounds: MeshBounds = [[Infinity, hmin, Infinity], [-Infinity, hmax, -Infinity]];
+      for (let i = 0; i < vertices.length; i += 3) {
+        bounds[0][0] = Math.min(bounds[0][0], vertices[i]);
+        bounds[0][2] = Math.min(bounds[0][2], vertices[i + 2]);
+        bounds[1][0] = Math.max(bounds[1][0], vertices[i]);
+        bounds[1][2] = Math.max(bounds[1][2], vertices[i + 2]);
+      }
+      return bounds;
+    });
+    this._navMeshConfig = { ...this._navMeshConfig, convexVolumes };
+    for (const profile of this._profiles.values()) {
+      profile.config = { ...profile.config, convexVolumes };
+    }
+    return this._completeTileRebuild(this._startTileRebuild(this._sourceMeshes, () => regions));
+  }
+
+  /**
+   * Gets the convex volumes of the navmesh, given to createNavMesh or setConvexVolumes
+   * @returns the volumes, with the corners of their outline and their height range
+   */
+  public getConvexVolumes (): INavMeshResolvedConvexVolume[] {
+    const areaNames = new Map<number, string>();
+    for (const areaType of this._areaTypes.values()) {
+      areaNames.set(areaType.id, areaType.name);
+    }
+    return (this._navMeshConfig.convexVolumes ?? []).map(({ vertices, hmin, hmax, area }) => {
+      const shape: Vector3[] = [];
+      for (let i = 0; i < vertices.length; i += 3) {
+        shape.push(new Vector3(vertices[i], vertices[i + 1], vertices[i + 2]));
+      }
+      return { shape, hmin, hmax, area: areaNames.get(area) ?? RecastNavigationJSPlugin.DefaultAreaType };
+    });
+  }
+
+  private _getConvexVolumeParams (volumes: INavMeshConvexVolume[], check: (valid: boolean, message: string) => void): INavMeshConvexVolumeParams[] {
+    return volumes.map(({ shape, hmin, hmax, area }, i) => {
+      const areaType = this._areaTypes.get(area);
+      check(!!areaType, `unknown area type ${area} for convex volume ${i}`);
+
+      let points: Vector3[];
+      if (Array.isArray(shape)) {
+        check(shape.every((point) => isFinite(point.x) && isFinite(point.y) && isFinite(point.z)), `convex volume ${i} positions must be finite`);
+        points = shape;
+      } else {
+        check(!shape.isDisposed(), `the mesh ${shape.name} of convex volume ${i} is disposed`);
+        const [positions] = this._getPositionsAndIndices([shape]);
+        points = [];
+        for (let p = 0; p < positions.length; p += 3) {
+          points.push(new Vector3(positions[p], positions[p + 1], positions[p + 2]));
+        }
+      }
+      // Recast only marks the inside of convex outlines correctly
+      const corners = RecastNavigationJSPlugin._ConvexHullXZ(points);
+      check(corners.length >= 3, `convex volume ${i} needs at least 3 corners that are not collinear, got ${corners.length}`);
+
+      const bottom = hmin ?? Math.min(...points.map((point) => point.y));
+      const top = hmax ?? Math.max(...points.map((point) => point.y));
+      check(isFinite(bottom) && isFinite(top) && top > bottom, `convex volume ${i} hmax must be greater than hmin, got ${bottom} and ${top}`);
+      const vertices: number[] = [];
+      for (const point of corners) {
+        vertices.push(point.x, bottom, point.z);
+      }
+      return { vertices, hmin: bottom, hmax: top, area: areaType!.id };
+    });
+  }
+
+  /**
+   * Convex hull of points projected on the XZ plane, with the monotone chain algorithm
+   */
+  private static _ConvexHullXZ (points: Vector3[]): Vector3[] {
+    const sorted = points.slice().sort((a, b) => a.x - b.x || a.z - b.z);
+    const cross = (o: Vector3, a: Vector3, b: Vector3) => (a.x - o.x) * (b.z - o.z) - (a.z - o.z) * (b.x - o.x);
+    const lower: Vector3[] = [];
+    const upper: Vector3[] = [];
+    for (const point of sorted) {
+      while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+        lower.pop();
+      }
+      lower.push(point);
+    }
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) {
+        upper.pop();
+      }
+      upper.push(sorted[i]);
+    }
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+  }
+
+  /**
+   * Creates a query filter that can be given to the path and point queries
+   * @param options included and excluded polygon flags and area costs
+   * @returns the query filter
+   */
+  public createQueryFilter (options: INavMeshQueryFilterOptions = {}): QueryFilter {
+    const filter = new QueryFilter();
+    this._configureQueryFilter(filter, options);
+    return filter;
+  }
+
+  /**
+   * Sets the flags and area costs of a query filter
+   * @internal
+   */
+  public _configureQueryFilter (filter: QueryFilter, options: INavMeshQueryFilterOptions): void {
+    const { includeFlags = 0xffff, excludeFlags = 0, areaCosts = {} } = options;
+    filter.includeFlags = includeFlags;
+    filter.excludeFlags = excludeFlags;
+
+    for (const areaName in areaCosts) {
+      if (!this._areaTypes.has(areaName)) {
+        throw new Error(`Unknown area type ${areaName}. Define it with defineAreaType first.`);
+      }
+      const cost = areaCosts[areaName];
+      if (!(cost > 0) || !isFinite(cost)) {
+        throw new Error(`Invalid query filter: the cost of ${areaName} must be a finite number greater than 0, got ${cost}.`);
+      }
+    }
+    for (const areaType of this._areaTypes.values()) {
+      filter.setAreaCost(areaType.id, areaCosts[areaType.name] ?? areaType.cost);
+    }
+    // the cache is keyed by filter identity, not by its settings
+    this._pathQueue.clearCache();
+  }
+
+  /**
+   * Gets the flags and area costs of a query filter
+   * @internal
+   */
+  public _getQueryFilterOptions (filter: QueryFilter): INavMeshQueryFilterOptions {
+    const areaCosts: { [areaName: string]: number } = {};
+    for (const areaType of this._areaTypes.values()) {
+      areaCosts[areaType.name] = filter.getAreaCost(areaType.id);
+    }
+    return { includeFlags: filter.includeFlags, excludeFlags: filter.excludeFlags, areaCosts };
+  }
+
+  /**
+   * Set worker URL to be used when generating a new navmesh.
+   * The worker must run the RecastNavigationJSWorker module or speak the same protocol
+   * @param workerURL url string
+   * @returns boolean indicating if worker is created
+   */
+  public setWorkerURL (workerURL: string | URL): boolean {
+    // there is no Worker under Node
+    if (typeof Worker !== "undefined") {
+      this._attachWorker(new Worker(workerURL, {
+        type: "module"
+      }), true);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Set the worker to be used when generating a new navmesh.
+   * The worker must run the RecastNavigationJSWorker module or speak the same protocol
+   * @param worker the worker
+   * @returns boolean indicating if worker is used
+   */
+  public setWorker (worker: Worker): boolean {
+    if (typeof Worker !== "undefined") {
+      this._attachWorker(worker, false);
+      return true;
+    }
+    return false;
+  }
+
+  private _attachWorker (worker: Worker, ownsWorker: boolean): void {
+    this._detachWorker("The navmesh worker was replaced.");
+
+    this._worker = worker;
+    this._ownsWorker = ownsWorker;
+    worker.onmessage = (e: MessageEvent<NavMeshWorkerResponse>) => {
+      this._onWorkerMessage(e.data);
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      this._rejectPendingWorkerBuilds(`The navmesh worker failed: ${e.message}`);
+    };
+    worker.onmessageerror = () => {
+      this._rejectPendingWorkerBuilds("The navmesh worker sent a message that could not be deserialized.");
+    };
+  }
+
+  private _detachWorker (reason: string): void {
+    if (!this._worker) {
+      return;
+    }
+
+    this._rejectPendingWorkerBuilds(reason);
+    this._worker.onmessage = null;
+    this._worker.onerror = null;
+    this._worker.onmessageerror = null;
+    if (this._ownsWorker) {
+      this._worker.terminate();
+    }
+    this._worker = null;
+    this._ownsWorker = false;
+  }
+
+  private _rejectPendingWorkerBuilds (reason: string): void {
+    const pending = Array.from(this._pendingWorkerBuilds.values());
+    this._pendingWorkerBuilds.clear();
+    for (const build of pending) {
+      build.reject(new NavMeshBuildError(reason, "workerFailure", "worker"));
+    }
+  }
+
+  private _onWorkerMessage (response: NavMeshWorkerResponse): void {
+    const build = this._pendingWorkerBuilds.get(response.id);
+    if (!build) {
+      // cancelled or unknown request
+      return;
+    }
+
+    if (response.version !== NavMeshWorkerProtocolVersion) {
+      this._pendingWorkerBuilds.delete(response.id);
+      build.reject(new NavMeshBuildError(`Navmesh worker protocol mismatch. Worker version is ${response.version}, plugin version is ${NavMeshWorkerProtocolVersion}.`, "workerFailure", "worker"));
+      return;
+    }
+
+    switch (response.type) {
+      case "progress":
+        build.onProgress?.(response.stage, response.progress);
+        break;
+      case "result":
+        this._pendingWorkerBuilds.delete(response.id);
+        build.resolve(response.navMeshData, response.profiles, response.report);
+        break;
+      case "error":
+        this._pendingWorkerBuilds.delete(response.id);
+        build.reject(new NavMeshBuildError(response.message, response.code, response.stage, response.logs));
+        break;
+    }
+  }
+
+  private _postWorkerRequest (request: NavMeshWorkerRequest, transfer: Transferable[] = []): void {
+    this._worker?.postMessage(request, transfer);
+  }
+
+  /**
+   * Set the time step of the navigation tick update.
+   * Default is 1/60.
+   * A value of 0 will disable fixed time update
+   * @param newTimeStep the new timestep to apply to this world.
+   */
+  setTimeStep (newTimeStep: number = 1 / 60): void {
+    this._timeStep = newTimeStep;
+  }
+
+  /**
+   * Get the time step of the navigation tick update.
+   * @returns the current time step
+   */
+  getTimeStep (): number {
+    return this._timeStep;
+  }
+
+  /**
+   * If delta time in navigation tick update is greater than the time step
+   * a number of sub iterations are done. If more iterations are need to reach deltatime
+   * they will be discarded.
+   * A value of 0 will set to no maximum and update will use as many substeps as needed
+   * @param newStepCount the maximum number of iterations
+   */
+  setMaximumSubStepCount (newStepCount: number = 10): void {
+    this._maximumSubStepCount = newStepCount;
+  }
+
+  /**
+   * Get the maximum number of iterations per navigation tick update
+   * @returns the maximum number of iterations
+   */
+  getMaximumSubStepCount (): number {
+    return this._maximumSubStepCount;
+  }
+
+  /**
+   * Time factor applied when updating crowd agents (default 1). A value of 0 will pause crowd updates.
+   * @param value the time factor applied at update
+   */
+  public set timeFactor (value: number) {
+    this._timeFactor = Math.max(value, 0);
+  }
+
+  /**
+   * Get the time factor used for crowd agent update
+   * @returns the time factor
+   */
+  public get timeFactor (): number {
+    return this._timeFactor;
+  }
+
+  /**
+   * Report of the last navmesh build whose navmesh is in use, null before the first build.
+   * After createNavMeshAsync, it is available once the returned Promise resolves
+   */
+  public get lastBuildReport (): Nullable<INavMeshBuildReport> {
+    return this._lastBuildReport;
+  }
+
+  /**
+   * Creates a navigation mesh. A failure throws a NavMeshBuildError, or logs it and notifies onNavMeshBuildErrorObservable for a worker build
+   * @param meshes array of all the geometry used to compute the navigation mesh. Meshes, instances and thin instances are merged in world space
+   * @param parameters bunch of parameters used to filter geometry
+   * @param completion callback when data is available from the worker, with the build report. Not used without a worker
+   * @returns the build report, null when the navmesh is built by the worker
+   */
+  createNavMesh (meshes: Array<Mesh | InstancedMesh>, parameters: IRecastNavMeshParameters, completion?: (navmeshData: Uint8Array, report: INavMeshBuildReport) => void): Nullable<INavMeshBuildReport> {
+    if (this._worker && !completion) {
+      Logger.Warn("A worker is avaible but no completion callback. Defaulting to blocking navmesh creation");
+    } else if (!this._worker && completion) {
+      Logger.Warn("A completion callback is avaible but no worker. Defaulting to blocking navmesh creation");
+    }
+
+    const input = this._prepareNavMeshInput(meshes, parameters);
+
+    if (this._worker && completion) {
+      this._buildNavMeshInWorker(input).then(
+        (navMeshData) => {
+          completion(navMeshData, this._lastBuildReport!);
+        },
+        (error: Error) => {
+          Logger.Error(error instanceof NavMeshBuildError ? `${error.message} (${error.code} at the ${error.stage} stage)` : error.message);
+          this.onNavMeshBuildErrorObservable.notifyObservers(error);
+        }
+      );
+      return null;
+    }
+    return this._buildNavMesh(input);
+  }
+
+  /**
+   * Creates a navigation mesh using the worker set with setWorker or setWorkerURL.
+   * Several builds can run at the same time, the navmesh of the last one to complete is kept.
+   * Without a worker the navmesh is built synchronously
+   * @param meshes array of all the geometry used to compute the navigation mesh. Meshes, instances and thin instances are merged in world space
+   * @param parameters bunch of parameters used to filter geometry
+   * @param options progress callback and abort signal
+   * @returns a Promise resolved with the navmesh data once the navmesh is in use, see lastBuildReport for its report.
+   * Rejected with a NavMeshBuildError if the build fails, with an AbortError if it is aborted
+   */
+  createNavMeshAsync (meshes: Array<Mesh | InstancedMesh>, parameters: IRecastNavMeshParameters, options: INavMeshBuildOptions = {}): Promise<Uint8Array> {
+    try {
+      const input = this._prepareNavMeshInput(meshes, parameters);
+
+      if (this._worker) {
+        return this._buildNavMeshInWorker(input, options);
+      }
+
+      if (options.signal?.aborted) {
+        return Promise.reject(RecastNavigationJSPlugin._CreateAbortError());
+      }
+      this._buildNavMesh(input);
+      return Promise.resolve(this.getNavmeshData());
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  private _prepareNavMeshInput (meshes: Array<Mesh | InstancedMesh>, parameters: IRecastNavMeshParameters): INavMeshBuildInput {
+    if (meshes.length === 0) {
+      throw new NavMeshBuildError("At least one mesh is needed to create the nav mesh.", "emptyGeometry", "input");
+    }
+
+    const config = this._getRecastConfig(parameters);
+    const mode = parameters.buildMode ?? (config.tileSize ? "tiled" : "solo");
+    if (mode !== "solo" && !config.tileSize) {
+      throw new NavMeshBuildError(`Invalid navmesh parameters: the ${mode} build mode needs a tileSize greater than 0.`, "invalidInput", "input");
+    }
+    const meshBounds = new Map<Mesh | InstancedMesh, MeshBounds>();
+    const [positions, indices, triangleAreas] = this._getPositionsAndIndices(meshes, meshBounds);
+
+    if (positions.length === 0 || indices.length === 0) {
+      throw new NavMeshBuildError("Unable to get nav mesh. No vertices or indices.", "emptyGeometry", "input");
+    }
+
+    const profiles = this._getProfileConfigs(parameters);
+    if (mode === "tileCache" && profiles.length > 0) {
+      throw new NavMeshBuildError("Invalid navmesh parameters: navmesh profiles are not supported in the tileCache build mode.", "invalidInput", "input");
+    }
+
+    if (mode !== "solo" && config.offMeshConnections) {
+      RecastNavigationJSPlugin._CheckOffMeshConnectionTiles(positions, indices, config);
+    }
+
+    const areas = { triangleAreas, areaFlags: this._areaFlags.slice() };
+    return { meshes: meshes.slice(), meshBounds, positions, indices, areas, mode, config, profiles };
+  }
+
+  private _getProfileConfigs (parameters: IRecastNavMeshParameters): Array<{ name: string; config: NavMeshBuildConfig }> {
+    const { profiles = {}, ...baseParameters } = parameters;
+    return Object.keys(profiles).map((name) => {
+      if (name === RecastNavigationJSPlugin.DefaultProfile) {
+        throw new NavMeshBuildError(`Invalid navmesh parameters: ${name} is the name of the profile built from the navmesh parameters.`, "invalidInput", "input");
+      }
+      return { name, config: this._getRecastConfig({ ...baseParameters, ...profiles[name] }) };
+    });
+  }
+
+  private _buildNavMesh (input: INavMeshBuildInput): INavMeshBuildReport {
+    const { positions, indices, areas, mode, config } = input;
+    const offMeshConnections = config.offMeshConnections ?? [];
+
+    // every navmesh is built before one is replaced, a failed build leaves the current ones in use
+    const builder = new NavMeshBuilder(positions, indices, config, null, areas);
+    let built: Nullable<{ navMesh: NavMesh; tileCache?: TileCache }> = null;
+    const profiles: Array<{ name: string; navMesh: NavMesh }> = [];
+    let report: INavMeshBuildReport;
+    try {
+      if (mode === "tileCache") {
+        built = builder.createTileCache(createTileCacheMeshProcess(this._areaFlags, offMeshConnections));
+      } else {
+        built = { navMesh: mode === "tiled" ? builder.createTiledNavMesh() : builder.createSoloNavMesh() };
+      }
+      const output = getNavMeshBuildOutput(built.navMesh);
+
+      // the profiles reuse the geometry already copied to the builder
+      const profileOutputs: Array<{ name: string; navMesh: INavMeshBuildOutput }> = [];
+      for (const profile of input.profiles) {
+        builder.setConfig(profile.config);
+        const navMesh = mode === "tiled" ? builder.createTiledNavMesh() : builder.createSoloNavMesh();
+        profiles.push({ name: profile.name, navMesh });
+        profileOutputs.push({ name: profile.name, navMesh: getNavMeshBuildOutput(navMesh) });
+      }
+      report = builder.createReport(mode, output, profileOutputs);
+    } catch (error) {
+      RecastNavigationJSPlugin._DestroyNavMeshes(built?.navMesh, built?.tileCache, profiles);
+      throw error;
+    } finally {
+      builder.destroy();
+    }
+    this._useNavMeshes(built.navMesh, built.tileCache, offMeshConnections, profiles);
+    this._useBuildInput(input);
+    this._lastBuildReport = report;
+    return report;
+  }
+
+  /**
+   * Replaces the navmesh, its tile cache and off-mesh connections, and the navmeshes of the profiles in one step
+   */
+  private _useNavMeshes (navMesh: NavMesh, tileCache: TileCache | undefined, offMeshConnections: OffMeshConnectionParams[], profiles: Array<{ name: string; navMesh: NavMesh }>): void {
+    this._useNavMesh(navMesh, tileCache);
+    this._offMeshConnections = offMeshConnections;
+    // crowds may still use the previous navmeshes, only their queries are released
+    for (const profile of this._profiles.values()) {
+      profile.navMeshQuery.destroy();
+    }
+    this._profiles.clear();
+    for (const profile of profiles) {
+      this._useProfileNavMesh(profile.name, profile.navMesh);
+    }
+  }
+
+  private static _DestroyNavMeshes (navMesh: NavMesh | undefined, tileCache: TileCache | undefined, profiles: Array<{ navMesh: NavMesh }>): void {
+    for (const profile of profiles) {
+      profile.navMesh.destroy();
+    }
+    tileCache?.destroy();
+    navMesh?.destroy();
+  }
+
+  private _useNavMesh (navMesh: NavMesh, tileCache?: TileCache): void {
+    // obstacles belong to the previous tile cache
+    for (const obstacle of this._obstacles) {
+      obstacle._ref = null;
+    }
+    this._obstacles.clear();
+    this._pendingObstacles.clear();
+    this._deferredObstacles.clear();
+    this._deferredRemovals.length = 0;
+    this._obstacleRequestCount = 0;
+    this._tileCacheUpToDate = true;
+    // crowds may still use the previous navmesh, only the tile cache is released
+    this._tileCache?.destroy();
+    this._cancelTileRebuild();
+
+    this.navMesh = navMesh;
+    this._navMeshQuery?.destroy();
+    this._navMeshQuery = new NavMeshQuery(navMesh);
+    this._configureQueryFilter(this._navMeshQuery.defaultFilter, {});
+    this._tileCache = tileCache;
+    this._tiledLayout = null;
+    this._watchTileCache(null);
+    this._onNavMeshModified();
+  }
+
+  private _useProfileNavMesh (name: string, navMesh: NavMesh): void {
+    this._profiles.get(name)?.navMeshQuery.destroy();
+    const navMeshQuery = new NavMeshQuery(navMesh);
+    this._configureQueryFilter(navMeshQuery.defaultFilter, {});
+    navMeshQuery.defaultQueryHalfExtents = { ...this._navMeshQuery.defaultQueryHalfExtents };
+    this._profiles.set(name, { navMesh, navMeshQuery, config: {}, tiledLayout: null });
+    this._onNavMeshModified(name);
+  }
+
+  private _useBuildInput (input: INavMeshBuildInput): void {
+    this._navMeshConfig = input.config;
+    this._sourceMeshes = input.meshes;
+    this._sourceMeshBounds = input.meshBounds;
+    const bounds = input.mode === "tiled" ? getBoundingBox(input.positions, input.indices) : null;
+    if (bounds) {
+      this._tiledLayout = computeTiledNavMeshLayout(bounds.bbMin, bounds.bbMax, input.config);
+    }
+    for (const { name, config } of input.profiles) {
+      const profile = this._profiles.get(name);
+      if (profile) {
+        profile.config = config;
+        profile.tiledLayout = bounds && computeTiledNavMeshLayout(bounds.bbMin, bounds.bbMax, config);
+      }
+    }
+    if (this._tileCache) {
+      this._watchTileCache(input.meshes[0].getScene());
+    }
+    this._watchPathRequests(input.meshes[0].getScene());
+  }
+
+  /**
+   * Forgets the results computed from a navmesh that changed and notifies onNavMeshChangedObservable
+   * @param profile the changed profile, every profile when not provided
+   * @param bounds world space bounds of the change, null when not known
+   */
+  private _onNavMeshModified (profile?: string, bounds: Nullable<BoundingBox> = null): void {
+    this._forgetNavMeshResults(profile);
+    this.onNavMeshChangedObservable.notifyObservers({ profile: profile ?? null, bounds });
+  }
+
+  /**
+   * Forgets the results computed from a navmesh that changed
+   * @param profile the changed profile, every profile when not provided
+   */
+  private _forgetNavMeshResults (profile?: string): void {
+    if (profile === undefined) {
+      this._connectivity.clear();
+    } else {
+      this._connectivity.delete(profile);
+    }
+    this._pathQueue.clearCache();
+  }
+
+  /**
+   * Searches the path requests on each frame of a scene
+   * @param scene the scene to follow, null to stop
+   */
+  private _watchPathRequests (scene: Nullable<Scene>): void {
+    if (this._pathRequestScene) {
+      this._pathRequestScene.onBeforeAnimationsObservable.remove(this._pathRequestObserver);
+      this._pathRequestObserver = null;
+    }
+    this._pathRequestScene = scene;
+    if (scene) {
+      this._pathRequestObserver = scene.onBeforeAnimationsObservable.add(() => {
+        this.updatePathRequests();
+      });
+    }
+  }
+
+  /**
+   * Applies the changes of the navigation sources on each frame of a scene
+   * @param scene the scene to follow, null to stop
+   */
+  private _watchNavigationSources (scene: Nullable<Scene>): void {
+    if (this._navigationSourceScene) {
+      this._navigationSourceScene.onBeforeAnimationsObservable.remove(this._navigationSourceObserver);
+      this._navigationSourceObserver = null;
+    }
+    this._navigationSourceScene = scene;
+    if (scene) {
+      this._navigationSourceObserver = scene.onBeforeAnimationsObservable.add(() => {
+        this.updateNavigationSources();
+      });
+    }
+  }
+
+  /**
+   * Updates the tile cache on each frame of a scene, in addition to the crowd updates
+   * @param scene the scene to follow, null to stop
+   */
+  private _watchTileCache (scene: Nullable<Scene>): void {
+    if (this._tileCacheScene) {
+      this._tileCacheScene.onBeforeAnimationsObservable.remove(this._tileCacheObserver);
+      this._tileCacheObserver = null;
+    }
+    this._tileCacheScene = scene;
+    if (scene) {
+      this._tileCacheObserver = scene.onBeforeAnimationsObservable.add(() => {
+        this.updateTileCache();
+      });
+    }
+  }
+
+  private _buildNavMeshInWorker (input: INavMeshBuildInput, options: INavMeshBuildOptions = {}): Promise<Uint8Array> {
+    const { positions, indices, areas, mode, config } = input;
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(RecastNavigationJSPlugin._CreateAbortError());
+    }
+
+    const id = ++this._workerRequestId;
+
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const onAbort = () => {
+        if (this._pendingWorkerBuilds.delete(id)) {
+          this._postWorkerRequest({ version: NavMeshWorkerProtocolVersion, type: "cancel", id });
+          reject(RecastNavigationJSPlugin._CreateAbortError());
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this._pendingWorkerBuilds.set(id, {
+        resolve: (navMeshData, profiles, report) => {
+          signal?.removeEventListener("abort", onAbort);
+          try {
+            // every navmesh is imported before one is replaced
+            const { navMesh, tileCache, offMeshConnections } = this._importNavMeshData(navMeshData);
+            const profileNavMeshes: Array<{ name: string; navMesh: NavMesh }> = [];
+            try {
+              for (const profile of profiles) {
+                profileNavMeshes.push({ name: profile.name, navMesh: importNavMesh(profile.navMeshData).navMesh });
+              }
+            } catch (error) {
+              RecastNavigationJSPlugin._DestroyNavMeshes(navMesh, tileCache, profileNavMeshes);
+              throw error;
+            }
+            this._useNavMeshes(navMesh, tileCache, offMeshConnections, profileNavMeshes);
+            this._useBuildInput(input);
+            this._lastBuildReport = report;
+          } catch (e) {
+            reject(e);
+            return;
+          }
+          resolve(navMeshData);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
+        onProgress,
+      });
+
+      // the plugin keeps its own copy of the geometry for the tile cache, transfer a clone
+      const workerPositions = positions.slice();
+      const workerIndices = indices.slice();
+      const workerAreas = areas.triangleAreas.slice();
+      this._postWorkerRequest({
+        version: NavMeshWorkerProtocolVersion,
+        type: "build",
+        id,
+        positions: workerPositions,
+        indices: workerIndices,
+        triangleAreas: workerAreas,
+        areaFlags: Array.from(areas.areaFlags),
+        mode,
+        config,
+        profiles: input.profiles,
+      }, [workerPositions.buffer, workerIndices.buffer, workerAreas.buffer]);
+    });
+  }
+
+  /**
+   * Detour only links an off-mesh connection to the tile of its start and to the neighbouring tiles
+   */
+  private static _CheckOffMeshConnectionTiles (positions: Float32Array, indices: Uint32Array, config: NavMeshBuildConfig): void {
+    const { bbMin, bbMax } = getBoundingBox(positions, indices);
+    const layout = computeTiledNavMeshLayout(bbMin, bbMax, config);
+    config.offMeshConnections!.forEach((connection, i) => {
+      const { startPosition: start, endPosition: end } = connection;
+      const [startX, startY] = getTileRange(layout, [start.x, start.y, start.z], [start.x, start.y, start.z]);
+      const [endX, endY] = getTileRange(layout, [end.x, end.y, end.z], [end.x, end.y, end.z]);
+      if (Math.abs(startX - endX) > 1 || Math.abs(startY - endY) > 1) {
+        Logger.Warn(`Off-mesh connection ${i} spans more than two tiles and will not be linked at its end. Increase the tileSize or shorten the connection.`);
+      }
+    });
+  }
+
+  private static _ExtendBounds (bounds: MeshBounds, point: Vector3): void {
+    bounds[0][0] = Math.min(bounds[0][0], point.x);
+    bounds[0][1] = Math.min(bounds[0][1], point.y);
+    bounds[0][2] = Math.min(bounds[0][2], point.z);
+    bounds[1][0] = Math.max(bounds[1][0], point.x);
+    bounds[1][1] = Math.max(bounds[1][1], point.y);
+    bounds[1][2] = Math.max(bounds[1][2], point.z);
+  }
+
+  private static _CreateAbortError (message: string = "The navmesh build was aborted."): Error {
+    const error = new Error(message);
+    error.name = "AbortError";
+    return error;
+  }
+
+  /**
+   * Maps the navmesh parameters to the recast-navigation config.
+   * Values that Recast would reject throw a NavMeshBuildError. Undefined values are left to the recast-navigation defaults
+   * @param parameters bunch of parameters used to filter geometry
+   * @returns the recast config
+   */
+  private _getRecastConfig (parameters: IRecastNavMeshParameters): NavMeshBuildConfig {
+    const config: NavMeshBuildConfig = {};
+    for (const key of RecastNavigationJSPlugin._RecastConfigKeys) {
+      const value = parameters[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== "number" || !isFinite(value)) {
+        throw new NavMeshBuildError(`Invalid navmesh parameters: ${key} must be a finite number, got ${value}.`, "invalidInput", "input");
+      }
+      config[key] = value;
+    }
+    for (const key of ["maxObstacles", "expectedLayersPerTile"] as const) {
+      const value = parameters[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (!Number.isInteger(value) || value < 1) {
+        throw new NavMeshBuildError(`Invalid navmesh parameters: ${key} must be an integer greater than 0, got ${value}.`, "invalidInput", "input");
+      }
+      config[key] = value;
+    }
+
+    const check = (valid: boolean, message: string) => {
+      if (!valid) {
+        throw new NavMeshBuildError(`Invalid navmesh parameters: ${message}.`, "invalidInput", "input");
+      }
+    };
+    const isSet = (key: keyof RecastConfig) => config[key] !== undefined;
+
+    if (parameters.convexVolumes?.length) {
+      config.convexVolumes = this._getConvexVolumeParams(parameters.convexVolumes, check);
+    }
+
+    if (parameters.offMeshConnections?.length) {
+      config.offMeshConnections = parameters.offMeshConnections.map((connection, i) => {
+        const { startPosition, endPosition, radius, bidirectional, area = RecastNavigationJSPlugin.DefaultAreaType, userId } = connection;
+        const areaType = this._areaTypes.get(area);
+        check(!!areaType, `unknown area type ${area} for off-mesh connection ${i}`);
+        check(isFinite(startPosition.x) && isFinite(startPosition.y) && isFinite(startPosition.z) && isFinite(endPosition.x) && isFinite(endPosition.y) && isFinite(endPosition.z), `off-mesh connection ${i} positions must be finite`);
+        check(radius > 0 && isFinite(radius), `off-mesh connection ${i} radius must be greater than 0, got ${radius}`);
+        check(Number.isInteger(userId) && userId >= 0 && userId <= 0xffffffff, `off-mesh connection ${i} userId must be a 32 bits unsigned integer, got ${userId}`);
+        return {
+          startPosition: { x: startPosition.x, y: startPosition.y, z: startPosition.z },
+          endPosition: { x: endPosition.x, y: endPosition.y, z: endPosition.z },
+          radius,
+          bidirectional: !!bidirectional,
+          area: areaType!.id,
+          flags: areaType!.flags,
+          userId,
+        };
+      });
+    }
+
+    check(!isSet("cs") || config.cs! > 0, `cs must be greater than 0, got ${config.cs}`);
+    check(!isSet("ch") || config.ch! > 0, `ch must be greater than 0, got ${config.ch}`);
+    check(!isSet("walkableSlopeAngle") || (config.walkableSlopeAngle! >= 0 && config.walkableSlopeAngle! <= 90), `walkableSlopeAngle must be between 0 and 90 degrees, got ${config.walkableSlopeAngle}`);
+    check(!isSet("walkableHeight") || config.walkableHeight! > 0, `walkableHeight must be greater than 0, got ${config.walkableHeight}`);
+    check(!isSet("maxVertsPerPoly") || (Number.isInteger(config.maxVertsPerPoly) && config.maxVertsPerPoly! >= 3 && config.maxVertsPerPoly! <= 6), `maxVertsPerPoly must be an integer between 3 and 6, got ${config.maxVertsPerPoly}`);
+    for (const key of ["walkableClimb", "walkableRadius", "maxEdgeLen", "maxSimplificationError", "minRegionArea", "mergeRegionArea", "detailSampleDist", "detailSampleMaxError", "borderSize", "tileSize"] as const) {
+      check(!isSet(key) || config[key]! >= 0, `${key} must not be negative, got ${config[key]}`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Merges the geometry of the meshes into a single world space triangle soup.
+   * Thin instances are expanded, duplicated vertices are welded, non indexed meshes are read as sequential triangles
+   * and the winding order is converted to the one expected by Recast
+   * @param meshes array of all the geometry used to compute the navigation mesh
+   * @param meshBounds output the world space bounds of each mesh
+   * @returns the merged positions and indices, and the area id of each triangle
+   */
+  private _getPositionsAndIndices (
+    meshes: Array<Mesh | InstancedMesh>,
+    meshBounds?: Map<Mesh | InstancedMesh, MeshBounds>
+  ): [positions: Float32Array, indices: Uint32Array, triangleAreas: Uint8Array] {
+    const mergedPositions: number[] = [];
+    const mergedIndices: number[] = [];
+    const triangleAreas: number[] = [];
+    const positionToIndex = new Map<string, number>();
+
+    const position = Vector3.Zero();
+    const transformed = Vector3.Zero();
+
+    for (let index = 0; index < meshes.length; index++) {
+      const mesh = meshes[index];
+      if (!mesh) {
+        continue;
+      }
+
+      const meshPositions = mesh.getVerticesData(VertexBuffer.PositionKind, false, false);
+      if (!meshPositions) {
+        continue;
+      }
+      const meshIndices = mesh.getIndices();
+      const indexCount = meshIndices ? meshIndices.length : meshPositions.length / 3;
+      const bounds: MeshBounds = [[Infinity, Infinity, Infinity], [-Infinity, -Infinity, -Infinity]];
+
+      const worldMatrices: Matrix[] = [];
+      const worldMatrix = mesh.computeWorldMatrix(true);
+
+      if (mesh.hasThinInstances) {
+        const thinMatrices = (mesh as Mesh).thinInstanceGetWorldMatrices();
+        for (let instanceIndex = 0; instanceIndex < thinMatrices.length; instanceIndex++) {
+          const tmpMatrix = new Matrix();
+          thinMatrices[instanceIndex].multiplyToRef(worldMatrix, tmpMatrix);
+          worldMatrices.push(tmpMatrix);
+        }
+      } else {
+        worldMatrices.push(worldMatrix);
+      }
+
+      // Recast expects counter clockwise triangles, Babylon front faces are clockwise unless the scene is right handed
+      const leftHanded = !mesh.getScene().useRightHandedSystem;
+      const area = this._meshAreaTypes.get(mesh)?.id ?? 0;
+
+      for (let matrixIndex = 0; matrixIndex < worldMatrices.length; matrixIndex++) {
+        const wm = worldMatrices[matrixIndex];
+        // a mirroring transform flips the winding order again
+        const flip = leftHanded !== wm.determinant() < 0;
+
+        for (let tri = 0; tri + 2 < indexCount; tri += 3) {
+          for (let corner = 0; corner < 3; corner++) {
+            const offset = tri + (flip ? 2 - corner : corner);
+            const pt = meshIndices ? meshIndices[offset] : offset;
+
+            Vector3.FromArrayToRef(meshPositions, pt * 3, position);
+            Vector3.TransformCoordinatesToRef(position, wm, transformed);
+            RecastNavigationJSPlugin._ExtendBounds(bounds, transformed);
+
+            const key = `${transformed.x}_${transformed.y}_${transformed.z}`;
+            let mergedIndex = positionToIndex.get(key);
+            if (mergedIndex === undefined) {
+              mergedIndex = mergedPositions.length / 3;
+              positionToIndex.set(key, mergedIndex);
+              mergedPositions.push(transformed.x, transformed.y, transformed.z);
+            }
+            mergedIndices.push(mergedIndex);
+          }
+          triangleAreas.push(area);
+        }
+      }
+      meshBounds?.set(mesh, bounds);
+    }
+
+    return [Float32Array.from(mergedPositions), Uint32Array.from(mergedIndices), Uint8Array.from(triangleAreas)];
+  }
+
+  /**
+   * Rebuilds the tiles overlapping a world space region and swaps them into the navmesh.
+   * The meshes given to createNavMesh are read again so moved or edited geometry is taken into account.
+   * The navmesh and the navmeshes of the profiles are updated in place: queries and crowds keep working. Only available in the tiled build mode
+   * @param bounds world space region to rebuild
+   * @returns the number of rebuilt tiles
+   */
+  rebuildRegion (bounds: BoundingBox): number {
+    const min = bounds.minimumWorld;
+    const max = bounds.maximumWorld;
+    return this._completeTileRebuild(this._startTileRebuild(this._sourceMeshes, () => [[[min.x, min.y, min.z], [max.x, max.y, max.z]]]));
+  }
+
+  /**
+   * Rebuilds the tiles touched by some meshes, at their previous and current location, and swaps them into the navmesh.
+   * Meshes that were not given to createNavMesh are added to the navmesh geometry, disposed meshes are removed from it.
+   * The navmesh and the navmeshes of the profiles are updated in place: queries and crowds keep working. Only available in the tiled build mode
+   * @param meshes the meshes that were moved, edited, added or disposed
+   * @returns the number of rebuilt tiles
+   */
+  rebuildTilesForMeshes (meshes: Array<Mesh | InstancedMesh>): number {
+    return this._completeTileRebuild(this._startMeshesTileRebuild(meshes));
+  }
+
+  /**
+   * Watches a mesh and keeps the navmesh up to date with it: the tiles it touches are rebuilt when it moves,
+   * when its vertices or indices are updated and when it is disposed. A mesh that is not part of the navmesh geometry yet is added to it.
+   * Changes are gathered until none happens for the debounce time, then the tiles are rebuilt a few at a time on each frame
+   * of the scene of the mesh, see setNavigationSourceBudget. Queries and crowds keep working meanwhile,
+   * onNavMeshChangedObservable fires once the tiles are rebuilt and onNavigationSourceErrorObservable when they cannot be.
+   * The tiles are built on the main thread, not in the worker, and each rebuild reads the geometry of every navmesh mesh again
+   * before its first tile. Only available in the tiled build mode
+   * @param mesh the mesh to watch
+   */
+  addNavigationSource (mesh: Mesh | InstancedMesh): void {
+    if (!this._tiledLayout) {
+      throw new Error("Navigation sources can only be watched on a navmesh created in the tiled build mode.");
+    }
+    if (this._navigationSources.has(mesh)) {
+      return;
+    }
+
+    const source: INavigationSource = {
+      worldMatrix: mesh.computeWorldMatrix(true).clone(),
+      geometry: null,
+      worldMatrixObserver: null,
+      disposeObserver: null,
+    };
+    // the world matrix is also computed again when nothing moved, reading the geometry does it for instance
+    source.worldMatrixObserver = mesh.onAfterWorldMatrixUpdateObservable.add(() => {
+      const worldMatrix = mesh.getWorldMatrix();
+      if (!source.worldMatrix.equals(worldMatrix)) {
+        source.worldMatrix.copyFrom(worldMatrix);
+        this._onNavigationSourceChanged(mesh);
+      }
+    });
+    source.disposeObserver = mesh.onDisposeObservable.add(() => {
+      this._onNavigationSourceChanged(mesh);
+      this.removeNavigationSource(mesh);
+    });
+    this._navigationSources.set(mesh, source);
+    this._watchGeometry(mesh, source);
+
+    if (this._sourceMeshes.indexOf(mesh) === -1) {
+      this._onNavigationSourceChanged(mesh);
+    }
+    if (this._navigationSourceScene !== mesh.getScene()) {
+      this._watchNavigationSources(mesh.getScene());
+    }
+  }
+
+  /**
+   * Stops watching a mesh given to addNavigationSource. Its geometry stays in the navmesh and the changes already noticed are still applied
+   * @param mesh the watched mesh
+   */
+  removeNavigationSource (mesh: Mesh | InstancedMesh): void {
+    const source = this._navigationSources.get(mesh);
+    if (!source) {
+      return;
+    }
+    mesh.onAfterWorldMatrixUpdateObservable.remove(source.worldMatrixObserver);
+    mesh.onDisposeObservable.remove(source.disposeObserver);
+    this._unwatchGeometry(mesh, source);
+    this._navigationSources.delete(mesh);
+  }
+
+  /**
+   * Rebuilds the tiles touched by the changes of the navigation sources within the per frame budget.
+   * Called on each frame of the scene of the navigation sources. A failed rebuild is reported by onNavigationSourceErrorObservable
+   * @returns true when the navmesh reflects every change of the navigation sources
+   */
+  updateNavigationSources (): boolean {
+    for (const [mesh, source] of this._navigationSources) {
+      // setVerticesData or VertexData.applyToMesh can give the mesh a new geometry
+      if (RecastNavigationJSPlugin._GetGeometry(mesh) !== source.geometry) {
+        this._unwatchGeometry(mesh, source);
+        this._watchGeometry(mesh, source);
+        this._onNavigationSourceChanged(mesh);
+      }
+    }
+
+    let rebuild = this._tileRebuild;
+    // called from a scene observer, an error must not escape to the frame
+    try {
+      if (
+        !rebuild &&
+        this._tiledLayout &&
+        this._changedNavigationSources.size > 0 &&
+        PrecisionDate.Now - this._navigationSourceChangeTime >= this._navigationSourceDebounceTime
+      ) {
+        this._rebuiltNavigationSources = Array.from(new Set([...this._failedNavigationSources, ...this._changedNavigationSources]));
+        this._changedNavigationSources.clear();
+        rebuild = this._startMeshesTileRebuild(this._rebuiltNavigationSources, this._failedNavigationSourceRegions);
+        this._failedNavigationSources = [];
+        this._failedNavigationSourceRegions = [];
+      }
+
+      this._tileRebuild = null;
+      if (rebuild && !this._continueTileRebuild(rebuild, this._navigationSourceMaxTime)) {
+        this._tileRebuild = rebuild;
+      }
+    } catch (error) {
+      this._failedNavigationSources = this._rebuiltNavigationSources;
+      if (rebuild) {
+        this._failedNavigationSourceRegions.push([rebuild.min.asArray() as Vector3Tuple, rebuild.max.asArray() as Vector3Tuple]);
+      }
+      Logger.Error(`Unable to rebuild the tiles of the navigation sources: ${error instanceof Error ? error.message : String(error)}`);
+      this.onNavigationSourceErrorObservable.notifyObservers({ meshes: this._rebuiltNavigationSources, error });
+    }
+    return !this._tileRebuild && this._changedNavigationSources.size === 0;
+  }
+
+  /**
+   * Sets how the changes of the navigation sources are applied
+   * @param debounceTime time in milliseconds without change before the tiles are rebuilt. Default is 250
+   * @param maxTime maximum time in milliseconds spent rebuilding tiles per frame, at least one tile is rebuilt. Default is 4
+   */
+  setNavigationSourceBudget (debounceTime: number, maxTime: number): void {
+    if (!(debounceTime >= 0) || !(maxTime > 0)) {
+      throw new Error(`Invalid navigation source budget: ${debounceTime} ms debounce, ${maxTime} ms.`);
+    }
+    this._navigationSourceDebounceTime = debounceTime;
+    this._navigationSourceMaxTime = maxTime;
+  }
+
+  private _onNavigationSourceChanged (mesh: Mesh | InstancedMesh): void {
+    this._changedNavigationSources.add(mesh);
+    this._navigationSourceChangeTime = PrecisionDate.Now;
+  }
+
+  private _watchGeometry (mesh: Mesh | InstancedMesh, source: INavigationSource): void {
+    const geometry = RecastNavigationJSPlugin._GetGeometry(mesh);
+    source.geometry = geometry;
+    if (!geometry) {
+      return;
+    }
+
+    let watched = this._watchedGeometries.get(geometry);
+    if (!watched) {
+      const meshes = new Set<Mesh | InstancedMesh>();
+      const previous = geometry.onGeometryUpdated ?? null;
+      const callback = (updated: Geometry, kind?: string) => {
+        previous?.(updated, kind);
+        // normals, colors or uvs do not change the navmesh
+        if (kind === undefined || kind === VertexBuffer.PositionKind) {
+          for (const watchedMesh of meshes) {
+            this._onNavigationSourceChanged(watchedMesh);
+          }
+        }
+      };
+      geometry.onGeometryUpdated = callback;
+      watched = { meshes, previous, callback };
+      this._watchedGeometries.set(geometry, watched);
+    }
+    watched.meshes.add(mesh);
+  }
+
+  private _unwatchGeometry (mesh: Mesh | InstancedMesh, source: INavigationSource): void {
+    const geometry = source.geometry;
+    const watched = geometry && this._watchedGeometries.get(geometry);
+    source.geometry = null;
+    if (!geometry || !watched) {
+      return;
+    }
+
+    watched.meshes.delete(mesh);
+    if (watched.meshes.size === 0) {
+      this._watchedGeometries.delete(geometry);
+      // a callback chained after ours still calls it, it does nothing once no mesh is left
+      if (geometry.onGeometryUpdated === watched.callback) {
+        geometry.onGeometryUpdated = watched.previous as Geometry["onGeometryUpdated"];
+      }
+    }
+  }
+
+  private static _GetGeometry (mesh: Mesh | InstancedMesh): Nullable<Geometry> {
+    return (mesh instanceof Mesh ? mesh : mesh.sourceMesh).geometry;
+  }
+
+  private _startMeshesTileRebuild (meshes: Array<Mesh | InstancedMesh>, extraRegions: MeshBounds[] = []): Nullable<ITileRebuild> {
+    const previousBounds = this._sourceMeshBounds;
+    const sourceMeshes = this._sourceMeshes.slice();
+    for (const mesh of meshes) {
+      if (sourceMeshes.indexOf(mesh) === -1) {
+        sourceMeshes.push(mesh);
+      }
+    }
+
+    return this._startTileRebuild(sourceMeshes, (meshBounds) => {
+      const regions: MeshBounds[] = extraRegions.slice();
+      for (const mesh of meshes) {
+        const previous = previousBounds.get(mesh);
+        const current = meshBounds.get(mesh);
+        previous && regions.push(previous);
+        current && regions.push(current);
+      }
+      return regions;
+    });
+  }
+
+  /**
+   * Reads the source meshes again and lists the tiles overlapping the changed regions, in the navmesh and in the navmeshes of the profiles.
+   * A rebuild in progress is completed first: it read older geometry and must not overwrite the tiles afterwards
+   * @param sourceMeshes meshes of the navmesh geometry, disposed ones are left out
+   * @param getRegions gives the changed regions from the bounds of each mesh
+   * @returns the rebuild, null when no region changed or the changed regions are outside the tile grid
+   */
+  private _startTileRebuild (
+    sourceMeshes: Array<Mesh | InstancedMesh>,
+    getRegions: (meshBounds: Map<Mesh | InstancedMesh, MeshBounds>) => MeshBounds[]
+  ): Nullable<ITileRebuild> {
+    if (!this._tiledLayout) {
+      throw new Error("Tiles can only be rebuilt on a navmesh created in the tiled build mode.");
+    }
+    if (this._tileRebuild) {
+      const rebuild = this._tileRebuild;
+      this._tileRebuild = null;
+      this._continueTileRebuild(rebuild, Infinity);
+    }
+
+    const meshes = sourceMeshes.filter((mesh) => !mesh.isDisposed());
+    const meshBounds = new Map<Mesh | InstancedMesh, MeshBounds>();
+    const [positions, indices, triangleAreas] = this._getPositionsAndIndices(meshes, meshBounds);
+    const regions = getRegions(meshBounds);
+
+    this._sourceMeshes = meshes;
+    this._sourceMeshBounds = meshBounds;
+
+    if (regions.length === 0) {
+      return null;
+    }
+
+    const targets: ITileRebuildTarget[] = [{ navMesh: this.navMesh, config: this._navMeshConfig, layout: this._tiledLayout }];
+    for (const profile of this._profiles.values()) {
+      if (profile.tiledLayout) {
+        targets.push({ navMesh: profile.navMesh, config: profile.config, layout: profile.tiledLayout });
+      }
+    }
+
+    const areas = { triangleAreas, areaFlags: this._areaFlags };
+    const rebuild: ITileRebuild = {
+      builder: indices.length > 0 ? new NavMeshBuilder(positions, indices, this._navMeshConfig, this._tiledLayout, areas) : null,
+      target: targets[0],
+      tiles: [],
+      next: 0,
+      tileCount: 0,
+      min: new Vector3(Infinity, Infinity, Infinity),
+      max: new Vector3(-Infinity, -Infinity, -Infinity),
+    };
+    let outside = false;
+    for (const target of targets) {
+      const { origin, tileWorldSize, tileWidthCount, tileHeightCount } = target.layout;
+      const listed = new Set<string>();
+      for (const [min, max] of regions) {
+        // the tile grid only covers the bounds of the geometry given to createNavMesh
+        outside ||= min[0] < origin[0] || min[2] < origin[2] || max[0] > origin[0] + tileWidthCount * tileWorldSize || max[2] > origin[2] + tileHeightCount * tileWorldSize;
+        const range = getTileRange(target.layout, min, max, true);
+        const minX = Math.max(range[0], 0);
+        const minY = Math.max(range[1], 0);
+        const maxX = Math.min(range[2], tileWidthCount - 1);
+        const maxY = Math.min(range[3], tileHeightCount - 1);
+        if (minX > maxX || minY > maxY) {
+          continue;
+        }
+        rebuild.min.minimizeInPlaceFromFloats(origin[0] + minX * tileWorldSize, min[1], origin[2] + minY * tileWorldSize);
+        rebuild.max.maximizeInPlaceFromFloats(origin[0] + (maxX + 1) * tileWorldSize, max[1], origin[2] + (maxY + 1) * tileWorldSize);
+        for (let ty = minY; ty <= maxY; ty++) {
+          for (let tx = minX; tx <= maxX; tx++) {
+            const key = `${tx}_${ty}`;
+            if (!listed.has(key)) {
+              listed.add(key);
+              rebuild.tiles.push({ target, tx, ty });
+            }
+          }
+        }
+      }
+      if (target === targets[0]) {
+        rebuild.tileCount = rebuild.tiles.length;
+      }
+    }
+    if (outside) {
+      Logger.Warn("Only the tiles inside the bounds of the geometry given to createNavMesh are rebuilt. Call createNavMesh again to extend the navmesh.");
+    }
+    return rebuild.tiles.length > 0 ? rebuild : null;
+  }
+
+  /**
+   * Rebuilds the next tiles of a rebuild, at least one. Once every tile is rebuilt, the builder is released and onNavMeshChangedObservable fires
+   * @param rebuild the rebuild
+   * @param maxTime maximum time in milliseconds spent
+   * @returns true when every tile is rebuilt
+   */
+  private _continueTileRebuild (rebuild: ITileRebuild, maxTime: number): boolean {
+    const startTime = PrecisionDate.Now;
+    try {
+      do {
+        const { target, tx, ty } = rebuild.tiles[rebuild.next++];
+        if (!rebuild.builder) {
+          const tileRef = target.navMesh.getTileRefAt(tx, ty, 0);
+          tileRef && target.navMesh.removeTile(tileRef);
+          continue;
+        }
+        if (rebuild.target !== target) {
+          rebuild.builder.setConfig(target.config, target.layout);
+          rebuild.target = target;
+        }
+        rebuild.builder.buildTile(target.navMesh, tx, ty);
+      } while (rebuild.next < rebuild.tiles.length && PrecisionDate.Now - startTime < maxTime);
+    } catch (e) {
+      rebuild.builder?.destroy();
+      // the tiles rebuilt before the error are kept
+      this._onNavMeshModified(undefined, new BoundingBox(rebuild.min, rebuild.max));
+      throw e;
+    }
+
+    if (rebuild.next < rebuild.tiles.length) {
+      // the polygons of the rebuilt tiles are new, cached paths and islands are stale already
+      this._forgetNavMeshResults();
+      return false;
+    }
+    rebuild.builder?.destroy();
+    this._onNavMeshModified(undefined, new BoundingBox(rebuild.min, rebuild.max));
+    return true;
+  }
+
+  private _completeTileRebuild (rebuild: Nullable<ITileRebuild>): number {
+    if (!rebuild) {
+      return 0;
+    }
+    this._continueTileRebuild(rebuild, Infinity);
+    return rebuild.tileCount;
+  }
+
+  private _cancelTileRebuild (): void {
+    this._tileRebuild?.builder?.destroy();
+    this._tileRebuild = null;
+  }
+
+  /**
+   * Create a navigation mesh debug mesh
+   * @param scene is where the mesh will be added
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns debug display mesh
+   */
+  createDebugNavMesh (scene: Scene, profile?: string): Mesh {
+    // let tri: number;
+    // let pt: number;
+    const [positions, indices] = this._getProfile(profile).navMesh.getDebugNavMesh();
+
+    // for (tri = 0; tri < triangleCount * 3; tri++) {
+    //   indices.push(tri);
+    // }
+    // for (tri = 0; tri < triangleCount; tri++) {
+    //   for (pt = 0; pt < 3; pt++) {
+    //     const point = debugNavMesh.getTriangle(tri).getPoint(pt);
+    //     positions.push(point.x, point.y, point.z);
+    //   }
+    // }
+
+    const mesh = new Mesh("NavMeshDebug", scene);
+    const vertexData = new VertexData();
+
+    vertexData.indices = indices;
+    vertexData.positions = positions;
+    vertexData.applyToMesh(mesh, false);
+    return mesh;
+  }
+
+  /**
+   * Get a navigation mesh constrained position, closest to the parameter position.
+   * The navigation engine interface requires a point: a copy of position is returned when no polygon is within the query extent,
+   * use getClosestPointWithResult to detect it
+   * @param position world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the closest point to position constrained by the navigation mesh
+   */
+  getClosestPoint (position: Vector3, filter?: QueryFilter, profile?: string): Vector3 {
+    const pr = position.clone();
+    this.getClosestPointToRef(position, pr, filter, profile);
+    return pr;
+  }
+
+  /**
+   * Get a navigation mesh constrained position, closest to the parameter position
+   * @param position world position
+   * @param result output the closest point to position constrained by the navigation mesh, left untouched when the query fails
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns false when no polygon is within the query extent
+   */
+  getClosestPointToRef (position: Vector3, result: Vector3, filter?: QueryFilter, profile?: string): boolean {
+    const ret = this._findClosestPoint(position, filter, profile);
+    if (!ret.success) {
+      return false;
+    }
+    result.set(ret.point.x, ret.point.y, ret.point.z);
+    return true;
+  }
+
+  /**
+   * Get a navigation mesh constrained position, closest to the parameter position
+   * @param position world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the closest point and its polygon, success is false when no polygon is within the query extent
+   */
+  getClosestPointWithResult (position: Vector3, filter?: QueryFilter, profile?: string): INavMeshNearestPolyResult {
+    const { success, status, polyRef, point, isPointOverPoly } = this._findClosestPoint(position, filter, profile);
+    return { success, status, polyRef, point: new Vector3(point.x, point.y, point.z), isOverPoly: isPointOverPoly };
+  }
+
+  /**
+   * Get a navigation mesh constrained position, within a particular radius.
+   * The navigation engine interface requires a point: a copy of position is returned when no point is found,
+   * use getRandomPointAroundWithResult to detect it
+   * @param position world position
+   * @param maxRadius the maximum distance to the constrained world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the closest point to position constrained by the navigation mesh
+   */
+  getRandomPointAround (position: Vector3, maxRadius: number, filter?: QueryFilter, profile?: string): Vector3 {
+    const pr = position.clone();
+    this.getRandomPointAroundToRef(position, maxRadius, pr, filter, profile);
+    return pr;
+  }
+
+  /**
+   * Get a navigation mesh constrained position, within a particular radius
+   * @param position world position
+   * @param maxRadius the maximum distance to the constrained world position
+   * @param result output the closest point to position constrained by the navigation mesh, left untouched when the query fails
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns false when position is away from the navmesh or no polygon is accepted by the filter
+   */
+  getRandomPointAroundToRef (position: Vector3, maxRadius: number, result: Vector3, filter?: QueryFilter, profile?: string): boolean {
+    const ret = this._findRandomPointAround(position, maxRadius, filter, profile);
+    if (!ret.success) {
+      return false;
+    }
+    result.set(ret.randomPoint.x, ret.randomPoint.y, ret.randomPoint.z);
+    return true;
   }
 
   /**
    * Get a navigation mesh constrained position, within a particular radius
    * @param position world position
-   * @param maxRadius the maximum distance to the constrained world position
-   * @param result output the closest point to position constrained by the navigation mesh
+   * @param maxRadius the maximum distance to the constrained world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the point and its polygon, success is false when position is away from the navmesh or no polygon is accepted by the filter
+   */
+  getRandomPointAroundWithResult (position: Vector3, maxRadius: number, filter?: QueryFilter, profile?: string): INavMeshRandomPointResult {
+    const { success, status, randomPolyRef, randomPoint } = this._findRandomPointAround(position, maxRadius, filter, profile);
+    return { success, status, polyRef: randomPolyRef, point: new Vector3(randomPoint.x, randomPoint.y, randomPoint.z) };
+  }
+
+  private _findClosestPoint (position: Vector3, filter?: QueryFilter, profile?: string): ReturnType<NavMeshQuery["findClosestPoint"]> {
+    this._tempVec1.x = position.x;
+    this._tempVec1.y = position.y;
+    this._tempVec1.z = position.z;
+    const ret = this._getProfile(profile).navMeshQuery.findClosestPoint(this._tempVec1, { filter });
+    // Detour reports a success with a null reference when the search box holds no polygon
+    if (!ret.success || ret.polyRef === 0) {
+      return { success: false, status: ret.success ? Detour.DT_FAILURE : ret.status, polyRef: 0, point: { x: position.x, y: position.y, z: position.z }, isPointOverPoly: false };
+    }
+    return ret;
+  }
+
+  private _findRandomPointAround (position: Vector3, maxRadius: number, filter?: QueryFilter, profile?: string): ReturnType<NavMeshQuery["findRandomPointAroundCircle"]> {
+    this._tempVec1.x = position.x;
+    this._tempVec1.y = position.y;
+    this._tempVec1.z = position.z;
+    const ret = this._getProfile(profile).navMeshQuery.findRandomPointAroundCircle(this._tempVec1, maxRadius, { filter });
+    if (!ret.success || ret.randomPolyRef === 0) {
+      return { success: false, status: ret.success ? Detour.DT_FAILURE : ret.status, randomPolyRef: 0, randomPoint: { x: position.x, y: position.y, z: position.z } };
+    }
+
+    return ret;
+  }
+
+  /**
+   * Compute the final position from a segment made of destination-position
+   * @param position world position
+   * @param destination world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the resulting point along the navmesh
+   */
+  moveAlong (position: Vector3, destination: Vector3, filter?: QueryFilter, profile?: string): Vector3 {
+    const ret = this._moveAlongSurface(position, destination, filter, profile);
+    const pr = new Vector3(ret.x, ret.y, ret.z);
+    return pr;
+  }
+
+  /**
+   * Compute the final position from a segment made of destination-position
+   * @param position world position
+   * @param destination world position
+   * @param result output the resulting point along the navmesh
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   */
+  moveAlongToRef (position: Vector3, destination: Vector3, result: Vector3, filter?: QueryFilter, profile?: string): void {
+    const ret = this._moveAlongSurface(position, destination, filter, profile);
+    result.set(ret.x, ret.y, ret.z);
+  }
+
+  private _moveAlongSurface (position: Vector3, destination: Vector3, filter?: QueryFilter, profile?: string): Vector3Like {
+    this._tempVec1.x = position.x;
+    this._tempVec1.y = position.y;
+    this._tempVec1.z = position.z;
+    this._tempVec2.x = destination.x;
+    this._tempVec2.y = destination.y;
+    this._tempVec2.z = destination.z;
+    // the move starts from the polygon under the position
+    const { navMeshQuery } = this._getProfile(profile);
+    const { nearestRef, nearestPoint } = navMeshQuery.findNearestPoly(this._tempVec1, { filter });
+    return navMeshQuery.moveAlongSurface(nearestRef, nearestPoint, this._tempVec2, { filter }).resultPosition;
+  }
+
+  /**
+   * Compute a navigation path from start to end. Returns an empty array if no path can be computed
+   * Path is straight.
+   * @param start world position
+   * @param end world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns array containing world position composing the path
+   */
+  computePath (start: Vector3, end: Vector3, filter?: QueryFilter, profile?: string): Vector3[] {
+    this._tempVec1.x = start.x;
+    this._tempVec1.y = start.y;
+    this._tempVec1.z = start.z;
+    this._tempVec2.x = end.x;
+    this._tempVec2.y = end.y;
+    this._tempVec2.z = end.z;
+    const { success, path } = this._getProfile(profile).navMeshQuery.computePath(this._tempVec1, this._tempVec2, { filter });
+    return success ? path.map((point) => new Vector3(point.x, point.y, point.z)) : [];
+  }
+
+  /**
+   * Queues a path search run a slice at a time within the per frame budget, see setPathRequestBudget.
+   * The requests are searched on each frame of the scene of the navmesh meshes, or of the scene given to loadState.
+   * Call updatePathRequests on each frame for a navmesh built from data. Identical requests share their search,
+   * and the results are cached until the navmesh, a query filter or an area type cost changes.
+   * Call clearPathCache after changing a query filter directly through its setters.
+   * @param start world position
+   * @param end world position
+   * @param options query filter, priority, abort signal and navmesh profile
+   * @returns a Promise resolved with the straight path, rejected with an AbortError if the request is aborted
+   */
+  requestPath (start: Vector3, end: Vector3, options: IPathRequestOptions = {}): Promise<IPathRequestResult> {
+    try {
+      return this._pathQueue.request(start, end, options);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  /**
+   * Searches the queued path requests within the per frame budget. Called on each frame of the scene of the navmesh meshes
+   * @returns true when no path request is left
+   */
+  updatePathRequests (): boolean {
+    return this._pathQueue.update();
+  }
+
+  /**
+   * Sets how much work path requests do on each frame
+   * @param maxIterations maximum number of polygons searched per frame. Default is 500
+   * @param maxTime maximum time in milliseconds spent per frame. Default is 2
+   */
+  setPathRequestBudget (maxIterations: number, maxTime: number): void {
+    if (!(maxIterations >= 1) || !(maxTime > 0)) {
+      throw new Error(`Invalid path request budget: ${maxIterations} iterations, ${maxTime} ms.`);
+    }
+    this._pathQueue.maxIterations = maxIterations;
+    this._pathQueue.maxTime = maxTime;
+  }
+
+  /**
+   * Forgets the cached path request results
+   */
+  clearPathCache (): void {
+    this._pathQueue.clearCache();
+  }
+
+  /**
+   * Compute a navigation path from start to end. Returns an empty array if no path can be computed.
+   * Path follows navigation mesh geometry: points are spaced by the step size along the surface and follow its height,
+   * off-mesh connections are crossed from their start to their end point.
+   * @param start world position
+   * @param end world position
+   * @param options step size, slop, maximum number of points and query filter
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns array containing world position composing the path
+   */
+  computePathSmooth (start: Vector3, end: Vector3, options?: ISmoothPathOptions, profile?: string): Vector3[] {
+    this._tempVec1.x = start.x;
+    this._tempVec1.y = start.y;
+    this._tempVec1.z = start.z;
+    this._tempVec2.x = end.x;
+    this._tempVec2.y = end.y;
+    this._tempVec2.z = end.z;
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const path = computeSmoothPath(navMesh, navMeshQuery, this._tempVec1, this._tempVec2, options);
+    return path.map((point) => new Vector3(point.x, point.y, point.z));
+  }
+
+  /**
+   * Finds the polygon nearest to a position within a search box
+   * @param position world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param halfExtents half size of the search box, the default query extent when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the polygon and the closest point on it, success is false when no polygon is in the search box
+   */
+  findNearestPoly (position: Vector3, filter?: QueryFilter, halfExtents?: Vector3, profile?: string): INavMeshNearestPolyResult {
+    const { navMeshQuery } = this._getProfile(profile);
+    const { status, polyRef, point, isOverPoly } = this._findNearestPoly(navMeshQuery, position, filter, halfExtents);
+    return { success: polyRef !== 0, status, polyRef, point: new Vector3(point.x, point.y, point.z), isOverPoly };
+  }
+
+  /**
+   * Finds the polygons reachable from a position that touch a circle around it
+   * @param position world position of the circle center
+   * @param radius circle radius
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the polygons with their travel cost from the center, success is false when the center is away from the navmesh
+   */
+  findPolysAroundCircle (position: Vector3, radius: number, filter?: QueryFilter, profile?: string): INavMeshPolysResult {
+    const { navMeshQuery } = this._getProfile(profile);
+    const start = this._findNearestPoly(navMeshQuery, position, filter);
+    if (start.polyRef === 0) {
+      return { success: false, status: start.status, polyRefs: [], parentRefs: [], costs: [] };
+    }
+    const { success, status, resultRefs, resultParents, resultCost, resultCount } = navMeshQuery.findPolysAroundCircle(start.polyRef, start.point, radius, { filter });
+    // the result arrays have the maximum result size
+    return { success, status, polyRefs: resultRefs.slice(0, resultCount), parentRefs: resultParents.slice(0, resultCount), costs: resultCost.slice(0, resultCount) };
+  }
+
+  /**
+   * Finds the polygons reachable from the center of a convex shape that touch the shape
+   * @param shape world positions of the convex shape vertices in either winding, only their X and Z are used
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the polygons with their travel cost from the center, success is false when the center is away from the navmesh
+   */
+  findPolysAroundShape (shape: Vector3[], filter?: QueryFilter, profile?: string): INavMeshPolysResult {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const center = shape.reduce((sum, vertex) => sum.addInPlace(vertex), Vector3.Zero()).scaleInPlace(1 / Math.max(shape.length, 1));
+    const start = this._findNearestPoly(navMeshQuery, center, filter);
+    if (start.polyRef === 0) {
+      return { success: false, status: start.status, polyRefs: [], parentRefs: [], costs: [] };
+    }
+    return findPolysAroundShape(navMesh, start.polyRef, shape, filter ?? navMeshQuery.defaultFilter);
+  }
+
+  /**
+   * Gets the height of a polygon surface
+   * @param polyRef polygon reference, see findNearestPoly
+   * @param position world position, only its X and Z are used
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the height, success is false when the polygon reference is invalid or the position is not over the polygon
+   */
+  getPolyHeight (polyRef: number, position: Vector3, profile?: string): INavMeshPolyHeightResult {
+    this._tempVec1.x = position.x;
+    this._tempVec1.y = position.y;
+    this._tempVec1.z = position.z;
+    return this._getProfile(profile).navMeshQuery.getPolyHeight(polyRef, this._tempVec1);
+  }
+
+  /**
+   * Finds the nearest wall around a position. Edges leading to polygons rejected by the filter are walls
+   * @param position world position
+   * @param maxRadius search radius
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the distance to the nearest wall, the closest point on it and its normal, success is false when the position is away from the navmesh
+   */
+  findDistanceToWall (position: Vector3, maxRadius: number, filter?: QueryFilter, profile?: string): INavMeshWallDistanceResult {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const start = this._findNearestPoly(navMeshQuery, position, filter);
+    if (start.polyRef === 0) {
+      return { success: false, status: start.status, hit: false, distance: maxRadius, point: Vector3.Zero(), normal: Vector3.Zero() };
+    }
+    const { success, status, hit, distance, hitPoint, hitNormal } = findDistanceToWall(navMesh, start.polyRef, start.point, maxRadius, filter ?? navMeshQuery.defaultFilter);
+    return {
+      success,
+      status,
+      hit,
+      distance,
+      point: new Vector3(hitPoint.x, hitPoint.y, hitPoint.z),
+      normal: new Vector3(hitNormal.x, hitNormal.y, hitNormal.z),
+    };
+  }
+
+  /**
+   * Picks a random point in a set of polygons, each polygon weighted by its area.
+   * Draws from the same seeded generator as getRandomPointAround, see setRandomSeed
+   * @param polyRefs polygon references, for example the result of findPolysAroundCircle
+   * @param filter query filter, see createQueryFilter. Rejected polygons are ignored. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the point and its polygon, success is false when a reference is invalid or no polygon is accepted by the filter
+   */
+  getRandomPointInPolys (polyRefs: number[], filter?: QueryFilter, profile?: string): INavMeshRandomPointResult {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const { success, status, polyRef, point } = findRandomPointInPolys(navMesh, navMeshQuery, polyRefs, filter ?? navMeshQuery.defaultFilter, RecastNavigationJSPlugin._SeededRandom);
+    return { success, status, polyRef, point: new Vector3(point.x, point.y, point.z) };
+  }
+
+  /**
+   * Advances the Detour random generator state, the one set by setRandomSeed, with the same linear congruential step
+   * @returns a number in [0, 1)
+   */
+  private static _SeededRandom (): number {
+    const seed = (Math.imul(getRandomSeed(), 214013) + 2531011) >>> 0;
+    setRandomSeed(seed);
+    return ((seed >>> 16) & 0x7fff) / 32768;
+  }
+
+  private _findNearestPoly (navMeshQuery: NavMeshQuery, position: Vector3, filter?: QueryFilter, halfExtents?: Vector3): { status: number; polyRef: number; point: Vector3Like; isOverPoly: boolean } {
+    this._tempVec1.x = position.x;
+    this._tempVec1.y = position.y;
+    this._tempVec1.z = position.z;
+    const { success, status, nearestRef, nearestPoint, isOverPoly } = navMeshQuery.findNearestPoly(this._tempVec1, { filter, halfExtents });
+    // Detour reports a success with a null reference when the search box holds no polygon
+    if (!success || nearestRef === 0) {
+      return { status: success ? Detour.DT_FAILURE : status, polyRef: 0, point: { x: position.x, y: position.y, z: position.z }, isOverPoly: false };
+    }
+    return { status, polyRef: nearestRef, point: nearestPoint, isOverPoly };
+  }
+
+  /**
+   * Casts a ray along the navmesh surface from start toward end, stopping at the first wall.
+   * The ray ignores the end height: over stacked floors it can reach the end position on another floor, keep it for short distances.
+   * A start position away from the navmesh is reported as a hit at the start
+   * @param start world position
+   * @param end world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns whether a wall is hit, where, its normal and the visited polygons
+   */
+  raycast (start: Vector3, end: Vector3, filter?: QueryFilter, profile?: string): INavMeshRaycastResult {
+    const { navMeshQuery } = this._getProfile(profile);
+    const ray = this._raycast(navMeshQuery, start, end, filter);
+    if (!ray) {
+      return { hit: true, fraction: 0, point: start.clone(), normal: Vector3.Zero(), polygons: [] };
+    }
+
+    const { hit, fraction, point, normal, polygons } = ray;
+    // the ray is 2D, the point height is taken from the last polygon crossed
+    const height = polygons.length > 0 ? navMeshQuery.getPolyHeight(polygons[polygons.length - 1], point) : null;
+    return {
+      hit,
+      fraction,
+      point: new Vector3(point.x, height?.success ? height.height : point.y, point.z),
+      normal: new Vector3(normal.x, normal.y, normal.z),
+      polygons,
+    };
+  }
+
+  /**
+   * Checks that end is directly walkable from start: no wall between them and end on the polygon the ray arrives on,
+   * within the query extent height. Cheaper than computePath to decide whether pathfinding is needed
+   * @param start world position
+   * @param end world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns true if a straight walk from start reaches end
+   */
+  hasLineOfSight (start: Vector3, end: Vector3, filter?: QueryFilter, profile?: string): boolean {
+    const { navMeshQuery } = this._getProfile(profile);
+    const ray = this._raycast(navMeshQuery, start, end, filter);
+    if (!ray || ray.hit || ray.polygons.length === 0) {
+      return false;
+    }
+
+    // reject an end position reached on another floor
+    this._tempVec2.x = end.x;
+    this._tempVec2.y = end.y;
+    this._tempVec2.z = end.z;
+    const height = navMeshQuery.getPolyHeight(ray.polygons[ray.polygons.length - 1], this._tempVec2);
+    return height.success && Math.abs(height.height - end.y) <= navMeshQuery.defaultQueryHalfExtents.y;
+  }
+
+  private _raycast (navMeshQuery: NavMeshQuery, start: Vector3, end: Vector3, filter?: QueryFilter): Nullable<Omit<INavMeshRaycastResult, "point" | "normal"> & { point: Vector3Like; normal: Vector3Like }> {
+    const { polyRef: nearestRef, point: nearestPoint } = this._findNearestPoly(navMeshQuery, start, filter);
+    if (nearestRef === 0) {
+      return null;
+    }
+    this._tempVec2.x = end.x;
+    this._tempVec2.y = end.y;
+    this._tempVec2.z = end.z;
+    const result = navMeshQuery.raycast(nearestRef, nearestPoint, this._tempVec2, { filter });
+    if (!result.success) {
+      return null;
+    }
+
+    // t is FLT_MAX when the ray reaches the end
+    const hit = result.t <= 1;
+    const fraction = hit ? result.t : 1;
+    const point = {
+      x: nearestPoint.x + (end.x - nearestPoint.x) * fraction,
+      y: nearestPoint.y + (end.y - nearestPoint.y) * fraction,
+      z: nearestPoint.z + (end.z - nearestPoint.z) * fraction,
+    };
+    // recast-navigation does not give the raycast a polygon buffer, the unobstructed segment is walked again to collect them
+    const { visited } = navMeshQuery.moveAlongSurface(nearestRef, nearestPoint, point, { filter });
+    const normal = hit ? result.hitNormal : { x: 0, y: 0, z: 0 };
+    return { hit, fraction, point, normal, polygons: visited };
+  }
+
+  /**
+   * Splits the navmesh into islands: sets of polygons that can all reach each other, through off-mesh connections too.
+   * A one way off-mesh connection leads from an island to another, see exits.
+   * The result is kept for isReachable and getIsland until the navmesh changes, call it again after changing polygon flags
+   * @param filter query filter, see createQueryFilter. Rejected polygons are left out. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the islands, their index is the island id returned by getIsland
+   */
+  computeIslands (filter?: QueryFilter, profile?: string): INavMeshIslandData[] {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const graph = new NavMeshPolyGraph(navMesh, filter ?? navMeshQuery.defaultFilter);
+    const { islandOf, islands } = graph.computeIslands();
+    this._connectivity.set(profile ?? RecastNavigationJSPlugin.DefaultProfile, {
+      navMesh,
+      filter: filter ?? navMeshQuery.defaultFilter,
+      graph,
+      islandOf,
+      islands,
+      reachableIslands: new Map(),
+    });
+    return islands;
+  }
+
+  /**
+   * Gets the island of the polygon nearest to a position
+   * @param position world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the island id, an index in the computeIslands result. -1 when the position is away from the navmesh
+   */
+  getIsland (position: Vector3, filter?: QueryFilter, profile?: string): number {
+    const { navMeshQuery } = this._getProfile(profile);
+    const connectivity = this._getConnectivity(filter, profile);
+    const node = connectivity.graph.indexOf(this._findNearestPoly(navMeshQuery, position, filter).polyRef);
+    return node === -1 ? -1 : connectivity.islandOf[node];
+  }
+
+  /**
+   * Checks that end can be reached from start by walking and taking off-mesh connections, without searching a path.
+   * Uses the islands of computeIslands, computed on the first call after a navmesh change
+   * @param start world position
+   * @param end world position
+   * @param filter query filter, see createQueryFilter. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns false when end cannot be reached or a position is away from the navmesh
+   */
+  isReachable (start: Vector3, end: Vector3, filter?: QueryFilter, profile?: string): boolean {
+    const startIsland = this.getIsland(start, filter, profile);
+    const endIsland = this.getIsland(end, filter, profile);
+    if (startIsland === -1 || endIsland === -1) {
+      return false;
+    }
+    return startIsland === endIsland || this._getReachableIslands(this._getConnectivity(filter, profile), startIsland).has(endIsland);
+  }
+
+  /**
+   * Disables the polygons that cannot be reached from any seed position, so queries, crowds and random points only use the playable area.
+   * Detour cannot remove polygons from a built tile: the pruned polygons lose their flags, which every query filter rejects.
+   * The flags are kept by getNavmeshData and saveState, rebuilt tiles and tile cache updates restore them
+   * @param seeds world positions the playable area is reached from, like spawn points
+   * @param filter query filter, see createQueryFilter. Polygons it rejects are pruned too. The default filter is used when not provided
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the number of pruned polygons
+   */
+  pruneUnreachable (seeds: Vector3[], filter?: QueryFilter, profile?: string): number {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const graph = new NavMeshPolyGraph(navMesh, filter ?? navMeshQuery.defaultFilter);
+    const starts = seeds.map((seed) => graph.indexOf(this._findNearestPoly(navMeshQuery, seed, filter).polyRef)).filter((node) => node !== -1);
+    if (starts.length === 0) {
+      throw new Error("Unable to prune the navmesh: no seed position is on the navmesh.");
+    }
+
+    const reached = graph.flood(starts);
+    let pruned = 0;
+    // the polygons rejected by the filter cannot be reached either
+    for (const polyRef of new NavMeshPolyGraph(navMesh, null).polyRefs) {
+      const node = graph.indexOf(polyRef);
+      if (node === -1 || !reached[node]) {
+        navMesh.setPolyFlags(polyRef, 0);
+        pruned++;
+      }
+    }
+    this._onNavMeshModified(profile ?? RecastNavigationJSPlugin.DefaultProfile);
+    return pruned;
+  }
+
+  private _getConnectivity (filter?: QueryFilter, profile?: string): INavMeshConnectivity {
+    const { navMesh, navMeshQuery } = this._getProfile(profile);
+    const connectivity = this._connectivity.get(profile ?? RecastNavigationJSPlugin.DefaultProfile);
+    if (connectivity && connectivity.navMesh === navMesh && connectivity.filter === (filter ?? navMeshQuery.defaultFilter)) {
+      return connectivity;
+    }
+    this.computeIslands(filter, profile);
+    return this._connectivity.get(profile ?? RecastNavigationJSPlugin.DefaultProfile)!;
+  }
+
+  private _getReachableIslands (connectivity: INavMeshConnectivity, island: number): Set<number> {
+    let reachable = connectivity.reachableIslands.get(island);
+    if (!reachable) {
+      // islands form a directed acyclic graph through their exits, usually small
+      reachable = new Set([island]);
+      const stack = [island];
+      while (stack.length > 0) {
+        for (const exit of connectivity.islands[stack.pop()!].exits) {
+          if (!reachable.has(exit)) {
+            reachable.add(exit);
+            stack.push(exit);
+          }
+        }
+      }
+      connectivity.reachableIslands.set(island, reachable);
+    }
+    return reachable;
+  }
+
+  /**
+   * Create a new Crowd so you can add agents
+   * @param maxAgents the maximum agent count in the crowd
+   * @param maxAgentRadius the maximum radius an agent can have
+   * @param scene to attach the crowd to
+   * @param profile navmesh profile the agents move on, the default profile when not provided
+   * @returns the crowd you can add agents to
+   */
+  createCrowd (maxAgents: number, maxAgentRadius: number, scene: Scene, profile?: string): ICrowd {
+    const crowd = new RecastJSCrowd(this, maxAgents, maxAgentRadius, scene, profile);
+    return crowd;
+  }
+
+  /**
+   * Create a new Crowd that does not need a scene, for headless and server simulations. Call its update method on each tick
+   * @param maxAgents the maximum agent count in the crowd
+   * @param maxAgentRadius the maximum radius an agent can have
+   * @param profile navmesh profile the agents move on, the default profile when not provided
+   * @returns the crowd you can add agents to
+   */
+  createCrowdSimulation (maxAgents: number, maxAgentRadius: number, profile?: string): RecastJSCrowdSimulation {
+    return new RecastJSCrowdSimulation(this, maxAgents, maxAgentRadius, profile);
+  }
+
+  /**
+   * Gets the navmesh of a profile
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns the navmesh
+   */
+  getNavMesh (profile?: string): NavMesh {
+    return this._getProfile(profile).navMesh;
+  }
+
+  /**
+   * Gets the names of the navmesh profiles, the default profile first
+   * @returns the profile names
+   */
+  getNavMeshProfiles (): string[] {
+    return [RecastNavigationJSPlugin.DefaultProfile, ...this._profiles.keys()];
+  }
+
+  /**
+   * Gets the navmesh and the query of a profile
+   * @internal
+   */
+  public _getProfile (profile: string = RecastNavigationJSPlugin.DefaultProfile): { navMesh: NavMesh; navMeshQuery: NavMeshQuery } {
+    if (profile === RecastNavigationJSPlugin.DefaultProfile) {
+      return { navMesh: this.navMesh, navMeshQuery: this._navMeshQuery };
+    }
+    const found = this._profiles.get(profile);
+    if (!found) {
+      throw new Error(`Unknown navmesh profile ${profile}.`);
+    }
+    return found;
+  }
+
+  /**
+   * Set the Bounding box extent for doing spatial queries (getClosestPoint, getRandomPointAround, ...)
+   * The queries will try to find a solution within those bounds
+   * default is (1,1,1)
+   * @param extent x,y,z value that define the extent around the queries point of reference
+   */
+  setDefaultQueryExtent (extent: Vector3): void {
+    // the queries keep the object, each one gets its own copy
+    this._navMeshQuery.defaultQueryHalfExtents = { x: extent.x, y: extent.y, z: extent.z };
+    for (const profile of this._profiles.values()) {
+      profile.navMeshQuery.defaultQueryHalfExtents = { x: extent.x, y: extent.y, z: extent.z };
+    }
+  }
+
+  /**
+   * Get the Bounding box extent specified by setDefaultQueryExtent
+   * @returns the box extent values
+   */
+  getDefaultQueryExtent (): Vector3 {
+    const extent = this._navMeshQuery.defaultQueryHalfExtents;
+    return new Vector3(extent.x, extent.y, extent.z);
+  }
+
+  /**
+ * Get the Bounding box extent result specified by setDefaultQueryExtent
+ * @param result output the box extent values
+ */
+  getDefaultQueryExtentToRef (result: Vector3): void {
+    const extent = this._navMeshQuery.defaultQueryHalfExtents;
+    result.set(extent.x, extent.y, extent.z);
+  }
+
+
+  /**
+   * build the navmesh from a previously saved state using getNavmeshData.
+   * Tile cache data restores the tile cache too, without its obstacles.
+   * Tile cache polygons get their flags from the area types of this plugin, define them before calling this method.
+   * Off-mesh connections are restored with the navmesh.
+   * The navmesh of another profile is added, or replaced, when a profile is given. Profiles only support navmesh data, not tile cache data
+   * @param data the Uint8Array returned by getNavmeshData
+   * @param profile navmesh profile, the default profile when not provided
+   */
+  buildFromNavmeshData (data: Uint8Array, profile: string = RecastNavigationJSPlugin.DefaultProfile): void {
+    if (profile !== RecastNavigationJSPlugin.DefaultProfile) {
+      if (RecastNavigationJSPlugin._IsTileCacheData(data)) {
+        throw new Error("Navmesh profiles are not supported in the tileCache build mode.");
+      }
+      this._useProfileNavMesh(profile, importNavMesh(data).navMesh);
+      return;
+    }
+    const { navMesh, tileCache, offMeshConnections } = this._importNavMeshData(data);
+    this._useNavMesh(navMesh, tileCache);
+    this._offMeshConnections = offMeshConnections;
+  }
+
+  private _importNavMeshData (data: Uint8Array): { navMesh: NavMesh; tileCache?: TileCache; offMeshConnections: OffMeshConnectionParams[] } {
+    if (RecastNavigationJSPlugin._IsTileCacheData(data)) {
+      const offMeshConnections = getTileCacheDataOffMeshConnections(data);
+      const tileCacheMeshProcess = createTileCacheMeshProcess(this._areaFlags, offMeshConnections);
+      const { navMesh, tileCache } = importTileCache(data, tileCacheMeshProcess);
+      return { navMesh, tileCache, offMeshConnections };
+    }
+    const { navMesh } = importNavMesh(data);
+    return { navMesh, offMeshConnections: getNavMeshOffMeshConnections(navMesh) };
+  }
+
+  /**
+   * returns the navmesh data that can be used later. The navmesh must be built before retrieving the data.
+   * In the tileCache build mode the tile cache is exported with the navmesh and its off-mesh connections.
+   * See saveState to save the obstacles, the profiles and a crowd too
+   * @param profile navmesh profile, the default profile when not provided
+   * @returns data the Uint8Array that can be saved and reused
+   */
+  getNavmeshData (profile?: string): Uint8Array {
+    const { navMesh } = this._getProfile(profile);
+    if (this._tileCache && navMesh === this.navMesh) {
+      return exportTileCacheData(this.navMesh, this._tileCache, this._offMeshConnections);
+    }
+    return exportNavMesh(navMesh)
+  }
+
+  /**
+   * Saves the navmesh, or the tile cache and its obstacles, with the build parameters, the area types, the off-mesh connections
+   * and the navmeshes of the profiles. The crowd, when given, is saved with its snapshot.
+   * The data is versioned and checksummed, restore it with loadState
+   * @param crowd crowd created by this plugin to save with the navigation
+   * @returns the data that can be saved and reused
+   */
+  saveState (crowd?: RecastJSCrowdSimulation): Uint8Array {
+    if (!this.navMesh) {
+      throw new Error("The navmesh must be built before saving the navigation state.");
+    }
+    if (crowd && crowd.bjsRECASTPlugin !== this) {
+      throw new Error("Only a crowd created by this plugin can be saved with its navigation state.");
+    }
+
+    const chunks = [this._tileCache ? exportTileCache(this.navMesh, this._tileCache) : exportNavMesh(this.navMesh)];
+    const profiles = Array.from(this._profiles, ([name, profile]) => {
+      chunks.push(exportNavMesh(profile.navMesh));
+      return { name, config: profile.config, navMesh: chunks.length - 1 };
+    });
+    const toTuple = (vector: Vector3): Vector3Tuple => [vector.x, vector.y, vector.z];
+    const obstacles: NavigationStateObstacle[] = [];
+    for (const obstacle of this._obstacles) {
+      if (obstacle instanceof RecastJSCylinderObstacle) {
+        obstacles.push({ type: "cylinder", position: toTuple(obstacle.position), radius: obstacle.radius, height: obstacle.height });
+      } else if (obstacle instanceof RecastJSBoxObstacle) {
+        obstacles.push({ type: "box", position: toTuple(obstacle.position), extent: toTuple(obstacle.extent), angle: obstacle.angle });
+      }
+    }
+
+    const description: INavigationStateDescription = {
+      config: this._navMeshConfig,
+      areaTypes: Array.from(this._areaTypes.values()),
+      offMeshConnections: this._offMeshConnections,
+      navMesh: 0,
+      tileCache: !!this._tileCache,
+      obstacles,
+      profiles,
+      crowd: crowd ? crowd.snapshot() : null,
+    };
+    return writeNavigationState(description, chunks);
+  }
+
+  /**
+   * Restores a navigation state saved by saveState. The navmesh, the tile cache, the obstacles and the profiles replace the current ones.
+   * The saved area types are defined on this plugin, the area types already defined must have the same ids.
+   * Tiles can only be rebuilt after the next createNavMesh since the source meshes are not saved.
+   * Data written by another version of the format, or corrupt or truncated data, is rejected with an error before anything changes
+   * @param data the Uint8Array returned by saveState
+   * @param scene scene of the restored crowd, and of the tile cache updates. Without a scene the crowd is restored as a RecastJSCrowdSimulation
+   * @returns the restored obstacles and crowd
+   */
+  loadState (data: Uint8Array, scene: Scene): INavigationStateLoadResult<RecastJSCrowd>;
+  loadState (data: Uint8Array, scene?: Scene): INavigationStateLoadResult;
+  loadState (data: Uint8Array, scene?: Scene): INavigationStateLoadResult {
+    const { description: rawDescription, chunks } = readNavigationState(data);
+    const description = RecastNavigationJSPlugin._CheckNavigationState(rawDescription, chunks.length);
+
+    const areaTypes = description.areaTypes.slice().sort((a, b) => a.id - b.id);
+    let nextId = this._areaTypes.size;
+    for (const areaType of areaTypes) {
+      const existing = this._areaTypes.get(areaType.name);
+      const id = existing ? existing.id : nextId++;
+      if (id !== areaType.id) {
+        throw new Error(`Invalid navigation state: area type ${areaType.name} has id ${areaType.id} in the saved state and ${id} in this plugin. Define the area types in the same order before loading.`);
+      }
+      if (id > RecastNavigationJSPlugin._MaxAreaId) {
+        throw new Error(`Invalid navigation state: area type ${areaType.name} has id ${id}, at most ${RecastNavigationJSPlugin._MaxAreaId + 1} area types can be defined.`);
+      }
+    }
+
+    // nothing changes until the navmeshes are imported
+    const offMeshConnections = description.offMeshConnections;
+    // the tiles imported from a tile cache get the saved flags
+    const areaFlags = this._areaFlags.slice();
+    for (const areaType of areaTypes) {
+      areaFlags[areaType.id] = areaType.flags;
+    }
+    let imported: Nullable<{ navMesh: NavMesh; tileCache?: TileCache }> = null;
+    const profiles: Array<{ name: string; navMesh: NavMesh }> = [];
+    try {
+      imported = description.tileCache
+        ? importTileCache(chunks[description.navMesh], createTileCacheMeshProcess(areaFlags, offMeshConnections))
+        : importNavMesh(chunks[description.navMesh]);
+      for (const profile of description.profiles) {
+        profiles.push({ name: profile.name, navMesh: importNavMesh(chunks[profile.navMesh]).navMesh });
+      }
+    } catch (error) {
+      RecastNavigationJSPlugin._DestroyNavMeshes(imported?.navMesh, imported?.tileCache, profiles);
+      throw error;
+    }
+
+    // the mesh process of the imported tile cache keeps reading the flags of this plugin
+    this._areaFlags = areaFlags;
+    for (const areaType of areaTypes) {
+      this.defineAreaType(areaType.name, { cost: areaType.cost, flags: areaType.flags });
+    }
+    this._useNavMeshes(imported.navMesh, imported.tileCache, offMeshConnections, profiles);
+    this._navMeshConfig = description.config;
+    for (const profile of description.profiles) {
+      this._profiles.get(profile.name)!.config = profile.config;
+    }
+
+    const obstacles: RecastJSObstacle[] = [];
+    for (const saved of description.obstacles) {
+      const [x, y, z] = saved.position;
+      const obstacle = saved.type === "cylinder"
+        ? new RecastJSCylinderObstacle(this, new Vector3(x, y, z), saved.radius, saved.height)
+        : new RecastJSBoxObstacle(this, new Vector3(x, y, z), Vector3.FromArray(saved.extent), saved.angle);
+      if (this._addObstacle(obstacle)) {
+        obstacles.push(obstacle);
+      }
+    }
+    // carve the obstacles right away so the crowd starts on the same navmesh
+    if (this._tileCache && !this._tileCacheUpToDate) {
+      let upToDate = false;
+      while (!upToDate) {
+        const result = this._tileCache.update(this.navMesh);
+        if (!result.success) {
+          break;
+        }
+        upToDate = result.upToDate;
+      }
+      this.updateTileCache();
+    }
+    if (this._tileCache && scene) {
+      this._watchTileCache(scene);
+    }
+    if (scene) {
+      this._watchPathRequests(scene);
+    }
+
+    let crowd: Nullable<RecastJSCrowdSimulation> = null;
+    if (description.crowd) {
+      const { maxAgents, maxAgentRadius, profile } = description.crowd;
+      crowd = scene ? new RecastJSCrowd(this, maxAgents, maxAgentRadius, scene, profile) : new RecastJSCrowdSimulation(this, maxAgents, maxAgentRadius, profile);
+      crowd.restore(description.crowd);
+    }
+    return { obstacles, crowd };
+  }
+
+  /**
+   * Checks the shape of a navigation state description before it is applied
+   */
+  private static _CheckNavigationState (description: unknown, chunkCount: number): INavigationStateDescription {
+    const check: (valid: boolean, message: string) => asserts valid = (valid, message) => {
+      if (!valid) {
+        throw new Error(`Invalid navigation state: ${message}.`);
+      }
+    };
+    const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+    const isNumber = (value: unknown): value is number => typeof value === "number" && isFinite(value);
+    const isPositive = (value: unknown): value is number => isNumber(value) && value > 0;
+    const isIndex = (value: unknown, count: number): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < count;
+    const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+    const isNumbers = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+    const isTuple = (value: unknown): value is Vector3Tuple => isNumbers(value) && value.length === 3;
+    const isVector = (value: unknown): value is Vector3Like => isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+    const isOptional = (value: unknown, isValid: (value: unknown) => boolean) => value === undefined || isValid(value);
+
+    const isAreaType = (areaType: unknown): areaType is INavMeshAreaType =>
+      isRecord(areaType) && typeof areaType.name === "string" && Number.isInteger(areaType.id) && isPositive(areaType.cost) &&
+      Number.isInteger(areaType.flags) && (areaType.flags as number) >= 0 && (areaType.flags as number) <= 0xffff;
+    const isOffMeshConnection = (connection: unknown): connection is OffMeshConnectionParams =>
+      isRecord(connection) && isVector(connection.startPosition) && isVector(connection.endPosition) && isPositive(connection.radius) &&
+      typeof connection.bidirectional === "boolean" && isOptional(connection.area, Number.isInteger) &&
+      isOptional(connection.flags, Number.isInteger) && isOptional(connection.userId, Number.isInteger);
+    const isObstacle = (obstacle: unknown): obstacle is NavigationStateObstacle =>
+      isRecord(obstacle) && isTuple(obstacle.position) && (
+        (obstacle.type === "cylinder" && isPositive(obstacle.radius) && isPositive(obstacle.height)) ||
+        (obstacle.type === "box" && isTuple(obstacle.extent) && obstacle.extent.every((v) => v >= 0) && isNumber(obstacle.angle)));
+    const isProfile = (profile: unknown): profile is INavigationStateDescription["profiles"][number] =>
+      isRecord(profile) && typeof profile.name === "string" && profile.name !== RecastNavigationJSPlugin.DefaultProfile &&
+      isRecord(profile.config) && isIndex(profile.navMesh, chunkCount);
+    const isFilter = (filter: unknown): filter is INavMeshQueryFilterOptions =>
+      isRecord(filter) && isOptional(filter.includeFlags, Number.isInteger) && isOptional(filter.excludeFlags, Number.isInteger) &&
+      isOptional(filter.areaCosts, (costs) => isRecord(costs) && Object.values(costs).every(isNumber));
+    const isParameters = (parameters: unknown) =>
+      isRecord(parameters) && ["radius", "height", "maxAcceleration", "maxSpeed", "collisionQueryRange", "pathOptimizationRange", "separationWeight"]
+        .every((key) => isNumber(parameters[key])) &&
+      ["updateFlags", "obstacleAvoidanceType", "queryFilterType"].every((key) => Number.isInteger(parameters[key]));
+    const isMoveTarget = (target: unknown) =>
+      target === null || (isRecord(target) && (target.type === "position" || target.type === "velocity") && isTuple(target.value));
+    const isAgentOffMeshConnection = (connection: unknown) =>
+      connection === null || (isRecord(connection) && Number.isInteger(connection.userId) && isTuple(connection.startPosition) &&
+        isTuple(connection.endPosition) && typeof connection.skipTransformUpdate === "boolean");
+    const isTransformOptions = (options: unknown) =>
+      isRecord(options) && ["none", "velocity", "corner"].includes(options.orientation as string) && isNumber(options.turnRate) &&
+      typeof options.alignToSlope === "boolean" && isNumber(options.heightOffset) && isNumber(options.positionSmoothing);
+    const isArrival = (arrival: unknown) =>
+      isRecord(arrival) && ["stop", "slowDown", "continue"].includes(arrival.mode as string) && isNumber(arrival.slowDownRadius);
+    const isWaypoints = (waypoints: unknown) =>
+      waypoints === null || (isRecord(waypoints) && Array.isArray(waypoints.points) && waypoints.points.length > 0 && waypoints.points.every(isTuple) &&
+        typeof waypoints.loop === "boolean" && Number.isInteger(waypoints.current) && typeof waypoints.waitingToStop === "boolean");
+    const isAgent = (agent: unknown, maxAgents: number): agent is ICrowdAgentSimulationState =>
+      isRecord(agent) && isIndex(agent.agentIndex, maxAgents) &&
+      isTuple(agent.position) && isTuple(agent.velocity) && isTuple(agent.desiredVelocity) && isParameters(agent.parameters) && isMoveTarget(agent.moveTarget) &&
+      isNumber(agent.reachRadius) && isTuple(agent.destination) && typeof agent.destinationArmed === "boolean" &&
+      (agent.offMeshCorner === null || isTuple(agent.offMeshCorner)) && isAgentOffMeshConnection(agent.offMeshConnection) &&
+      Number.isInteger(agent.state) && Number.isInteger(agent.targetState) && isTuple(agent.progressPosition) && isNumber(agent.noProgressTime) &&
+      isTransformOptions(agent.transformOptions) && isNumber(agent.yaw) && isTuple(agent.previousPosition) && isArrival(agent.arrival) &&
+      isNumber(agent.maxSpeed) && isWaypoints(agent.waypoints);
+
+    check(isRecord(description), "missing description");
+    check(isRecord(description.config), "missing build parameters");
+    check(Array.isArray(description.areaTypes) && description.areaTypes.every(isAreaType), "invalid area types");
+    check(Array.isArray(description.offMeshConnections) && description.offMeshConnections.every(isOffMeshConnection), "invalid off-mesh connections");
+    check(isIndex(description.navMesh, chunkCount), "missing navmesh data");
+    check(typeof description.tileCache === "boolean", "missing tile cache flag");
+    check(Array.isArray(description.obstacles) && description.obstacles.every(isObstacle), "invalid obstacles");
+    check(description.obstacles.length === 0 || description.tileCache, "obstacles need tile cache data");
+    check(Array.isArray(description.profiles) && description.profiles.every(isProfile), "invalid profiles");
+    const { config, areaTypes, offMeshConnections, navMesh, tileCache, obstacles, profiles, crowd } = description;
+    let crowdState: Nullable<ICrowdSimulationState> = null;
+    if (crowd !== null) {
+      check(isRecord(crowd) && isCount(crowd.maxAgents) && isPositive(crowd.maxAgentRadius), "invalid crowd");
+      const { profile, maxAgents } = crowd;
+      check(typeof profile === "string" && (profile === RecastNavigationJSPlugin.DefaultProfile || profiles.some((saved) => saved.name === profile)), `unknown crowd profile ${String(profile)}`);
+      check(Array.isArray(crowd.filters) && crowd.filters.length === RecastNavigationJSPlugin.MaxQueryFilterTypes && crowd.filters.every(isFilter), "invalid crowd filters");
+      check(isNumber(crowd.accumulator) && isNumber(crowd.interpolationFactor) && isNumber(crowd.stuckDetectionTime) && isNumber(crowd.stuckDetectionDistance), "invalid crowd timing");
+      check(Array.isArray(crowd.agents) && crowd.agents.every((agent) => isAgent(agent, maxAgents)), "invalid crowd agents");
+      const agents: ICrowdAgentSimulationState[] = crowd.agents;
+      check(new Set(agents.map((agent) => agent.agentIndex)).size === agents.length, "duplicate crowd agents");
+      crowdState = {
+        profile,
+        maxAgents,
+        maxAgentRadius: crowd.maxAgentRadius,
+        filters: crowd.filters,
+        accumulator: crowd.accumulator,
+        interpolationFactor: crowd.interpolationFactor,
+        stuckDetectionTime: crowd.stuckDetectionTime,
+        stuckDetectionDistance: crowd.stuckDetectionDistance,
+        agents,
+      };
+    }
+    return { config: config as NavMeshBuildConfig, areaTypes, offMeshConnections, navMesh, tileCache, obstacles, profiles, crowd: crowdState };
+  }
+
+  /**
+   * Gets the off-mesh connections of the navmesh, given by the navmesh parameters or restored by buildFromNavmeshData
+   * @returns the off-mesh connections
+   */
+  getOffMeshConnections (): IOffMeshConnection[] {
+    return this._offMeshConnections.map((connection) => {
+      const areaType = Array.from(this._areaTypes.values()).find((type) => type.id === connection.area);
+      return {
+        startPosition: new Vector3(connection.startPosition.x, connection.startPosition.y, connection.startPosition.z),
+        endPosition: new Vector3(connection.endPosition.x, connection.endPosition.y, connection.endPosition.z),
+        radius: connection.radius,
+        bidirectional: connection.bidirectional,
+        area: areaType?.name,
+        userId: connection.userId ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Finds the off-mesh connection whose start, or end when it is bidirectional, is the closest to a position
+   * @internal
+   */
+  public _findOffMeshConnection (position: Vector3Like): Nullable<{ connection: OffMeshConnectionParams; reversed: boolean }> {
+    let closest: Nullable<{ connection: OffMeshConnectionParams; reversed: boolean }> = null;
+    let closestDistance = Infinity;
+    const check = (connection: OffMeshConnectionParams, endpoint: Vector3Like, reversed: boolean) => {
+      const dx = endpoint.x - position.x;
+      const dy = endpoint.y - position.y;
+      const dz = endpoint.z - position.z;
+      const distance = dx * dx + dy * dy + dz * dz;
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = { connection, reversed };
+      }
+    };
+    for (const connection of this._offMeshConnections) {
+      check(connection, connection.startPosition, false);
+      if (connection.bidirectional) {
+        check(connection, connection.endPosition, true);
+      }
+    }
+    return closest;
+  }
+
+  private static _IsTileCacheData (data: Uint8Array): boolean {
+    // exportTileCache writes the "TEST" magic, exportNavMesh writes "TESM"
+    return data.length >= 4 && data[0] === 0x54 && data[1] === 0x45 && data[2] === 0x53 && data[3] === 0x54;
+  }
+
+  /**
+   * Disposes
+   */
+  public dispose () {
+    this._detachWorker("The navigation plugin was disposed.");
+    this._watchTileCache(null);
+    this._watchPathRequests(null);
+    this._watchNavigationSources(null);
+    this._pathQueue.clear("The navigation plugin was disposed.");
+    for (const mesh of this._navigationSources.keys()) {
+      this.removeNavigationSource(mesh);
+    }
+    this._changedNavigationSources.clear();
+    this._failedNavigationSources = [];
+    this._failedNavigationSourceRegions = [];
+    this._cancelTileRebuild();
+
+    this.onObstaclesAppliedObservable.clear();
+    this.onNavMeshChangedObservable.clear();
+    this.onNavigationSourceErrorObservable.clear();
+    this.onNavMeshBuildErrorObservable.clear();
+  }
+
+  /**
+   * Rebuilds the tiles touched by obstacle changes. Called on each frame of the scene of the navmesh meshes
+   * and on each crowd update. Each call rebuilds a limited number of tiles, call it until it returns true
+   * to carve many obstacles at once
+   * @returns true when the navmesh reflects every obstacle
+   */
+  updateTileCache (): boolean {
+    if (!this._tileCache || this._tileCacheUpToDate) {
+      return true;
+    }
+
+    const { success, status, upToDate } = this._tileCache.update(this.navMesh);
+    if (!success) {
+      Logger.Warn(`Unable to update the tile cache: ${statusToReadableString(status)}`);
+    }
+    this._onNavMeshModified(RecastNavigationJSPlugin.DefaultProfile);
+    if (upToDate) {
+      this._obstacleRequestCount = 0;
+    }
+    // deferred requests are queued again once the queue is empty
+    const retried = this._deferredRemovals.length > 0 || this._deferredObstacles.size > 0;
+    if (retried) {
+      this._retryObstacleRequests(this._tileCache);
+    }
+    if (upToDate && !retried) {
+      this._tileCacheUpToDate = true;
+      const applied = Array.from(this._pendingObstacles);
+      this._pendingObstacles.clear();
+      this.onObstaclesAppliedObservable.notifyObservers(applied);
+    }
+    return upToDate && !retried;
+  }
+
+  /**
+   * Creates a cylinder obstacle and add it to the navigation.
+   * Only available in the tileCache build mode. The navmesh is carved by the next updateTileCache
+   * @param position world position
+   * @param radius cylinder radius
+   * @param height cylinder height
+   * @returns the obstacle freshly created, null if it could not be added
+   */
+  addCylinderObstacle (position: Vector3, radius: number, height: number): Nullable<IObstacle> {
+    const obstacle = new RecastJSCylinderObstacle(this, position, radius, height);
+    return this._addObstacle(obstacle) ? obstacle : null;
+  }
+
+  /**
+   * Creates an oriented box obstacle and add it to the navigation.
+   * Only available in the tileCache build mode. The navmesh is carved by the next updateTileCache
+   * @param position world position
+   * @param extent box size
+   * @param angle angle in radians of the box orientation on Y axis
+   * @returns the obstacle freshly created, null if it could not be added
+   */
+  addBoxObstacle (position: Vector3, extent: Vector3, angle: number): Nullable<IObstacle> {
+    const obstacle = new RecastJSBoxObstacle(this, position, extent, angle);
+    return this._addObstacle(obstacle) ? obstacle : null;
+  }
+
+  /**
+   * Removes an obstacle created by addCylinderObstacle or addBoxObstacle
+   * @param obstacle obstacle to remove from the navigation
+   */
+  removeObstacle (obstacle: IObstacle): void {
+    if (obstacle instanceof RecastJSObstacle) {
+      obstacle.remove();
+    }
+  }
+
+  /**
+   * Gets the obstacles added to the tile cache and not removed
+   * @returns the obstacles
+   */
+  public getObstacles (): RecastJSObstacle[] {
+    return Array.from(this._obstacles);
+  }
+
+  private _addObstacle (obstacle: RecastJSObstacle): boolean {
+    if (!this._tileCache) {
+      Logger.Error("Obstacles can only be added to a navmesh created in the tileCache build mode.");
+      return false;
+    }
+    return this._applyObstacle(this._tileCache, obstacle);
+  }
+
+  /**
+   * Replaces an obstacle of the tile cache by its moved or resized version.
+   * When the request queue is full, the previous version stays until updateTileCache adds the new one
+   * @internal
+   */
+  public _updateObstacle (obstacle: RecastJSObstacle): boolean {
+    if (obstacle._ref === null || !this._tileCache) {
+      return false;
+    }
+
+    this._tileCacheUpToDate = false;
+    if (!this._replaceObstacle(this._tileCache, obstacle)) {
+      this._deferredObstacles.add(obstacle);
+    }
+    return true;
+  }
+
+  private _applyObstacle (tileCache: TileCache, obstacle: RecastJSObstacle): boolean {
+    const result = obstacle._addToTileCache(tileCache);
+    if (!result.success) {
+      Logger.Error(`Unable to add the obstacle to the tile cache: ${statusToReadableString(result.status)}`);
+      return false;
+    }
+
+    this._obstacleRequestCount++;
+    obstacle._ref = result.obstacle;
+    this._obstacles.add(obstacle);
+    this._tileCacheUpToDate = false;
+    this._pendingObstacles.add(obstacle);
+    return true;
+  }
+
+  private _replaceObstacle (tileCache: TileCache, obstacle: RecastJSObstacle): boolean {
+    // the previous version is only removed once the new one is queued
+    const previous = obstacle._ref as Obstacle;
+    const result = obstacle._addToTileCache(tileCache);
+    if (!result.success) {
+      return false;
+    }
+
+    this._obstacleRequestCount++;
+    this._removeObstacleRef(tileCache, previous);
+    obstacle._ref = result.obstacle;
+    this._pendingObstacles.add(obstacle);
+    return true;
+  }
+
+  private _removeObstacleRef (tileCache: TileCache, obstacle: Obstacle): void {
+    // the call releases the obstacle handle even when the request queue is full, it is only made when the request fits
+    if (this._obstacleRequestCount >= RecastNavigationJSPlugin._MaxObstacleRequests) {
+      this._deferredRemovals.push(obstacle);
+      return;
+    }
+
+    const { success, status } = tileCache.removeObstacle(obstacle);
+    if (success) {
+      this._obstacleRequestCount++;
+    } else {
+      Logger.Warn(`Unable to remove the obstacle from the tile cache: ${statusToReadableString(status)}`);
+    }
+  }
+
+  private _retryObstacleRequests (tileCache: TileCache): void {
+    for (const obstacle of this._deferredRemovals.splice(0)) {
+      this._removeObstacleRef(tileCache, obstacle);
+    }
+    for (const obstacle of Array.from(this._deferredObstacles)) {
+      if (this._replaceObstacle(tileCache, obstacle)) {
+        this._deferredObstacles.delete(obstacle);
+      }
+    }
+  }
+
+  /**
+   * Removes an obstacle from the tile cache
+   * @internal
+   */
+  public _removeObstacle (obstacle: RecastJSObstacle): void {
+    if (obstacle._ref === null || !this._tileCache) {
+      return;
+    }
+
+    this._removeObstacleRef(this._tileCache, obstacle._ref);
+    obstacle._ref = null;
+    this._obstacles.delete(obstacle);
+    this._deferredObstacles.delete(obstacle);
+    this._tileCacheUpToDate = false;
+
+    this._pendingObstacles.add(obstacle);
+  }
+
+  /**
+   * If this plugin is supported
+   * @returns true if plugin is supported
+   */
+  public isSupported (): boolean {
+    return true;
+  }
+
+  /**
+   * Returns the seed used for randomized functions like `getRandomPointAround`
+   * @returns seed number
+   */
+  public getRandomSeed (): number {
+    return getRandomSeed();
+  }
+
+  /**
+   * Set the seed used for randomized functions like `getRandomPointAround`
+   * @param seed number used as seed for random functions
+   */
+  public setRandomSeed (seed: number): void {
+    setRandomSeed(seed);
+  }
+}
+
+/**
+ * Recast detour crowd that does not need a scene, for headless and server simulations. It moves when update is called.
+ * The positions, velocities and states of the agents are also kept in plain arrays, indexed by agent index
+ */
+export class RecastJSCrowdSimulation {
+  /**
+   * Recast/detour plugin
+   */
+  public bjsRECASTPlugin: RecastNavigationJSPlugin;
+  /**
+   * navmesh profile the agents move on
+   */
+  public readonly profile: string;
+  /**
+   * Link to the detour crowd
+   */
+  public recastCrowd: Crowd;
+  /**
+   * All agents created
+   */
+  public agents: number[] = new Array<number>();
+  /**
+   * agents reach radius
+   */
+  public reachRadii: number[] = new Array<number>();
+  /**
+   * agent positions after the last update, 3 values per agent index
+   */
+  public readonly agentPositions: Float32Array;
+  /**
+   * agent velocities after the last update, 3 values per agent index
+   */
+  public readonly agentVelocities: Float32Array;
+  /**
+   * agent states after the last update, one value per agent index. DT_CROWDAGENT_STATE_INVALID (0) when there is no agent at an index
+   */
+  public readonly agentStates: Uint8Array;
+  /**
+   * true when a destination is active for an agent and notifier hasn't been notified of reach
+   */
+  private _agentDestinationArmed: boolean[] = new Array<boolean>();
+  /**
+   * agent current target
+   */
+  private _agentDestination: Vector3[] = new Array<Vector3>();
+  /**
+   * start of the off-mesh connection ending the agent corridor, used to find the connection the agent enters
+   */
+  private _agentOffMeshCorner: Nullable<Vector3>[] = new Array<Nullable<Vector3>>();
+  /**
+   * off-mesh connection the agent is traversing
+   */
+  protected _agentOffMeshConnection: Nullable<IOffMeshConnectionEvent>[] = new Array<Nullable<IOffMeshConnectionEvent>>();
+  /**
+   * agent state after the last crowd update
+   */
+  private _agentState: number[] = new Array<number>();
+  /**
+   * agent move request state after the last crowd update
+   */
+  private _agentTargetState: number[] = new Array<number>();
+  /**
+   * agent position at the start of the current stuck detection window
+   */
+  private _agentProgressPosition: Vector3[] = new Array<Vector3>();
+  /**
+   * time spent by the agent without moving further than stuckDetectionDistance
+   */
+  private _agentNoProgressTime: number[] = new Array<number>();
+  /**
+   * how the agent transform is updated
+   */
+  protected _agentTransformOptions: Required<ICrowdAgentTransformOptions>[] = new Array<Required<ICrowdAgentTransformOptions>>();
+  /**
+   * agent transform yaw, turned toward the agent direction at the transform turn rate
+   */
+  protected _agentYaw: number[] = new Array<number>();
+  /**
+   * agent position before the last simulation step, interpolated with the current one for the transform
+   */
+  protected _agentPreviousPosition: Vector3[] = new Array<Vector3>();
+  /**
+   * arrival mode and slow down radius of the agent
+   */
+  private _agentArrival: Array<{ mode: CrowdAgentArrivalMode; slowDownRadius: number }> = new Array<{ mode: CrowdAgentArrivalMode; slowDownRadius: number }>();
+  /**
+   * agent maximum speed, scaled down by the "slowDown" arrival mode
+   */
+  private _agentMaxSpeed: number[] = new Array<number>();
+  /**
+   * waypoints the agent goes through, see agentGotoSequence
+   */
+  private _agentSequence: Nullable<{ points: Vector3[]; loop: boolean; current: number; waitingToStop: boolean }>[] =
+    new Array<Nullable<{ points: Vector3[]; loop: boolean; current: number; waitingToStop: boolean }>>();
+  /**
+   * simulation time not stepped yet, less than a time step
+   */
+  private _accumulator = 0;
+  /**
+   * position of the rendered frame between the last two simulation steps, between 0 and 1
+   */
+  protected _interpolationFactor = 1;
+
+  private _tempPosition = new Vector3();
+
+  // speed under which an agent waiting at a waypoint is considered stopped
+  private static readonly _StoppedSpeed = 0.1;
+
+  private static readonly _DefaultTransformOptions: Required<ICrowdAgentTransformOptions> = {
+    orientation: "none",
+    turnRate: 2 * Math.PI,
+    alignToSlope: false,
+    heightOffset: 0,
+    positionSmoothing: 0,
+  };
+  private _maxAgentRadius: number;
+
+  /**
+   * Fires each time an agent is in reach radius of its destination
+   */
+  public onReachTargetObservable = new Observable<{ agentIndex: number; destination: Vector3 }>();
+
+  /**
+   * Fires when an agent reaches the last waypoint of a sequence that does not loop
+   */
+  public onAgentSequenceCompletedObservable = new Observable<{ agentIndex: number }>();
+
+  /**
+   * Fires when an agent starts traversing an off-mesh connection
+   */
+  public onOffMeshConnectionStartObservable = new Observable<IOffMeshConnectionEvent>();
+
+  /**
+   * Fires when an agent reaches the end of an off-mesh connection, or is removed while traversing it
+   */
+  public onOffMeshConnectionEndObservable = new Observable<IOffMeshConnectionEvent>();
+
+  /**
+   * Fires when the state of an agent changes between walking, off-mesh and invalid
+   */
+  public onAgentStateChangedObservable = new Observable<ICrowdAgentStateEvent>();
+
+  /**
+   * Fires once when an agent going to a destination moves less than stuckDetectionDistance during stuckDetectionTime.
+   * Fires again if the agent is still stuck after making progress. An agent waiting at the end of a partial path is stuck too
+   */
+  public onAgentStuckObservable = new Observable<ICrowdAgentStuckEvent>();
+
+  /**
+   * Fires each time the path of an agent is computed, for a new destination or because the previous path became invalid
+   */
+  public onAgentPathComputedObservable = new Observable<ICrowdAgentPathEvent>();
+
+  /**
+   * Fires when no path can be computed to the destination of an agent, for example when the destination is off the navmesh
+   */
+  public onAgentPathFailedObservable = new Observable<ICrowdAgentPathEvent>();
+
+  /**
+   * Fires when the destination of an agent is unreachable and the agent follows a path to the closest reachable position
+   */
+  public onAgentPartialPathObservable = new Observable<ICrowdAgentPartialPathEvent>();
+
+  /**
+   * Fires for each call changing the simulation, once the call is done. update fires before the agents move.
+   * Used by RecastJSCrowdRecorder, or to send the calls to other simulations
+   */
+  public onCommandObservable = new Observable<CrowdCommand>();
+
+  /**
+   * Fires at the end of update, once the agents moved and their events fired
+   */
+  public onAfterUpdateObservable = new Observable<number>();
+
+  /**
+   * Time in seconds an agent going to a destination can move less than stuckDetectionDistance before onAgentStuckObservable fires. Default is 2
+   */
+  public stuckDetectionTime = 2;
+
+  /**
+   * Distance an agent must move within stuckDetectionTime to not be stuck. Default is 0.1
+   */
+  public stuckDetectionDistance = 0.1;
+
+  /**
+   * Constructor
+   * @param plugin recastJS plugin
+   * @param maxAgents the maximum agent count in the crowd
+   * @param maxAgentRadius the maximum radius an agent can have
+   * @param profile navmesh profile the agents move on, the default profile when not provided
+   * @returns the crowd you can add agents to
+   */
+  public constructor(plugin: RecastNavigationJSPlugin, maxAgents: number, maxAgentRadius: number, profile: string = RecastNavigationJSPlugin.DefaultProfile) {
+    this.bjsRECASTPlugin = plugin;
+    this.profile = profile;
+    this._maxAgentRadius = maxAgentRadius;
+    this.recastCrowd = new Crowd(plugin._getProfile(profile).navMesh, {
+      maxAgents,
+      maxAgentRadius,
+    })
+    this.agentPositions = new Float32Array(maxAgents * 3);
+    this.agentVelocities = new Float32Array(maxAgents * 3);
+    this.agentStates = new Uint8Array(maxAgents);
+
+    for (let i = 0; i < RecastNavigationJSPlugin.MaxQueryFilterTypes; i++) {
+      plugin._configureQueryFilter(this.recastCrowd.getFilter(i), {});
+    }
+  }
+
+  /**
+   * Add a new agent to the crowd with the specified parameters
+   * @param pos world position that will be constrained by the navigation mesh
+   * @param parameters agent parameters
+   * @returns agent index
+   */
+  addAgent (pos: Vector3, parameters: IRecastAgentParameters): number {
+    const agentParams: IAgentParameters & Partial<CrowdAgentParams> = {
+
+      radius: parameters.radius,
+      height: parameters.height,
+      maxAcceleration: parameters.maxAcceleration,
+      maxSpeed: parameters.maxSpeed,
+      collisionQueryRange: parameters.collisionQueryRange,
+      pathOptimizationRange: parameters.pathOptimizationRange,
+      separationWeight: parameters.separationWeight,
+      reachRadius: parameters.reachRadius ? parameters.reachRadius : parameters.radius,
+      queryFilterType: RecastJSCrowdSimulation._GetQueryFilterType(parameters.queryFilterType ?? 0),
+      // reachRadius: 0
+      // updateFlags : 7,
+      // obstacleAvoidanceType : 0,
+      // userData : 0,
+    }
+
+    const agent = this.recastCrowd.addAgent({ x: pos.x, y: pos.y, z: pos.z }, agentParams);
+    this.agents.push(agent.agentIndex);
+    this.reachRadii.push(parameters.reachRadius ? parameters.reachRadius : parameters.radius);
+    this._agentDestinationArmed.push(false);
+    this._agentDestination.push(new Vector3(0, 0, 0));
+    this._agentOffMeshCorner.push(null);
+    this._agentOffMeshConnection.push(null);
+    this._agentState.push(agent.state());
+    this._agentTargetState.push(agent.raw.get_targetState());
+    this._agentProgressPosition.push(pos.clone());
+    this._agentNoProgressTime.push(0);
+    this._agentTransformOptions.push(RecastJSCrowdSimulation._GetTransformOptions(parameters.transformOptions ?? {}, RecastJSCrowdSimulation._DefaultTransformOptions));
+    this._agentYaw.push(0);
+    this._agentPreviousPosition.push(this.getAgentPosition(agent.agentIndex));
+    this._agentArrival.push(RecastJSCrowdSimulation._GetArrival(parameters, { mode: "stop", slowDownRadius: 2 }));
+    this._agentMaxSpeed.push(parameters.maxSpeed);
+    this._agentSequence.push(null);
+    this._writeAgentData(agent.agentIndex);
+    if (this.onCommandObservable.hasObservers()) {
+      const transformOptions = parameters.transformOptions && { ...parameters.transformOptions };
+      this.onCommandObservable.notifyObservers({ type: "addAgent", agentIndex: agent.agentIndex, position: [pos.x, pos.y, pos.z], parameters: { ...parameters, transformOptions } });
+    }
+    return agent.agentIndex;
+  }
+
+  /**
+   * Returns the agent position in world space
+   * @param index agent index returned by addAgent
+   * @returns world space position
+   */
+  getAgentPosition (index: number): Vector3 {
+    const agentPos = this.recastCrowd.getAgent(index)?.position() ?? { x: 0, y: 0, z: 0 };
+    return new Vector3(agentPos.x, agentPos.y, agentPos.z);
+  }
+
+  /**
+   * Returns the agent position result in world space
+   * @param index agent index returned by addAgent
+   * @param result output world space position
    */
-  getRandomPointAroundToRef (position: Vector3, maxRadius: number, result: Vector3): void {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    const ret = this._navMeshQuery.findRandomPointAroundCircle(this._tempVec1, maxRadius);
-    result.set(ret.randomPoint.x, ret.randomPoint.y, ret.randomPoint.z);
+  getAgentPositionToRef (index: number, result: Vector3): void {
+    const agentPos = this.recastCrowd.getAgent(index)?.position() ?? { x: 0, y: 0, z: 0 };
+    result.set(agentPos.x, agentPos.y, agentPos.z);
   }
 
   /**
-   * Compute the final position from a segment made of destination-position
-   * @param position world position
-   * @param destination world position
-   * @returns the resulting point along the navmesh
+   * Returns the agent velocity in world space
+   * @param index agent index returned by addAgent
+   * @returns world space velocity
    */
-  moveAlong (position: Vector3, destination: Vector3): Vector3 {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    this._tempVec2.x = destination.x;
-    this._tempVec2.y = destination.y;
-    this._tempVec2.z = destination.z;
-    const ret = this._navMeshQuery.moveAlongSurface(0, this._tempVec1, this._tempVec2);
-    const pr = new Vector3(ret.resultPosition.x, ret.resultPosition.y, ret.resultPosition.z);
-    return pr;
+  getAgentVelocity (index: number): Vector3 {
+    const agentVel = this.recastCrowd.getAgent(index)?.velocity() ?? { x: 0, y: 0, z: 0 };
+    return new Vector3(agentVel.x, agentVel.y, agentVel.z);
   }
 
   /**
-   * Compute the final position from a segment made of destination-position
-   * @param position world position
-   * @param destination world position
-   * @param result output the resulting point along the navmesh
+   * Returns the agent velocity result in world space
+   * @param index agent index returned by addAgent
+   * @param result output world space velocity
    */
-  moveAlongToRef (position: Vector3, destination: Vector3, result: Vector3): void {
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    this._tempVec2.x = destination.x;
-    this._tempVec2.y = destination.y;
-    this._tempVec2.z = destination.z;
-    const ret = this._navMeshQuery.moveAlongSurface(0, this._tempVec1, this._tempVec2);
-    result.set(ret.resultPosition.x, ret.resultPosition.y, ret.resultPosition.z);
+  getAgentVelocityToRef (index: number, result: Vector3): void {
+    const agentVel = this.recastCrowd.getAgent(index)?.velocity() ?? { x: 0, y: 0, z: 0 };
+    result.set(agentVel.x, agentVel.y, agentVel.z);
+  }
+
+  /**
+   * Returns the agent next target point on the path
+   * @param index agent index returned by addAgent
+   * @returns world space position
+   */
+  getAgentNextTargetPath (index: number): Vector3 {
+    const pathTargetPos = this.recastCrowd.getAgent(index)?.nextTargetInPath() ?? { x: 0, y: 0, z: 0 };
+    return new Vector3(pathTargetPos.x, pathTargetPos.y, pathTargetPos.z);
+  }
+
+  /**
+   * Returns the agent next target point on the path
+   * @param index agent index returned by addAgent
+   * @param result output world space position
+   */
+  getAgentNextTargetPathToRef (index: number, result: Vector3): void {
+    const pathTargetPos = this.recastCrowd.getAgent(index)?.nextTargetInPath() ?? { x: 0, y: 0, z: 0 };
+    result.set(pathTargetPos.x, pathTargetPos.y, pathTargetPos.z);
+  }
+
+  /**
+   * Gets the agent state
+   * @param index agent index returned by addAgent
+   * @returns agent state
+   */
+  getAgentState (index: number): number {
+    return this.recastCrowd.getAgent(index)?.state() ?? 0; // invalid
+  }
+
+  /**
+   * returns true if the agent in over an off mesh link connection
+   * @param index agent index returned by addAgent
+   * @returns true if over an off mesh link connection
+   */
+  overOffmeshConnection (index: number): boolean {
+    return this.recastCrowd.getAgent(index)?.overOffMeshConnection() ?? false;
   }
 
-  private _convertNavPathPoints (navPath: any): Vector3[] {
-    let pt: number;
-    const pointCount = navPath.getPointCount();
-    const positions = [];
-    for (pt = 0; pt < pointCount; pt++) {
-      const p = navPath.getPoint(pt);
-      positions.push(new Vector3(p.x, p.y, p.z));
+  /**
+   * Asks a particular agent to go to a destination. That destination is constrained by the navigation mesh
+   * @param index agent index returned by addAgent
+   * @param destination targeted world position
+   */
+  agentGoto (index: number, destination: Vector3): void {
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      this._agentSequence[item] = null;
+    }
+    this._requestMoveTarget(index, destination);
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "agentGoto", agentIndex: index, destination: [destination.x, destination.y, destination.z] });
     }
-    return positions;
   }
 
   /**
-   * Compute a navigation path from start to end. Returns an empty array if no path can be computed
-   * Path is straight.
-   * @param start world position
-   * @param end world position
-   * @returns array containing world position composing the path
+   * Asks a particular agent to go through waypoints, one after the other.
+   * onReachTargetObservable fires for each waypoint, then the agent heads to the next one once stopped,
+   * or as soon as it is in reach radius in the "continue" arrival mode
+   * @param index agent index returned by addAgent
+   * @param points world positions of the waypoints
+   * @param loop true to go back to the first waypoint after the last one, for patrols
    */
-  computePath (start: Vector3, end: Vector3): Vector3[] {
-    this._tempVec1.x = start.x;
-    this._tempVec1.y = start.y;
-    this._tempVec1.z = start.z;
-    this._tempVec2.x = end.x;
-    this._tempVec2.y = end.y;
-    this._tempVec2.z = end.z;
-    const navPath = this._navMeshQuery.computePath(this._tempVec1, this._tempVec2);
-    return this._convertNavPathPoints(navPath);
+  agentGotoSequence (index: number, points: Vector3[], loop: boolean = false): void {
+    if (points.length === 0) {
+      throw new Error("A waypoint sequence needs at least one point.");
+    }
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      this._agentSequence[item] = { points: points.map((point) => point.clone()), loop, current: 0, waitingToStop: false };
+    }
+    this._requestMoveTarget(index, points[0]);
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "agentGotoSequence", agentIndex: index, points: points.map((point): Vector3Tuple => [point.x, point.y, point.z]), loop });
+    }
   }
 
   /**
-   * Compute a navigation path from start to end. Returns an empty array if no path can be computed.
-   * Path follows navigation mesh geometry.
-   * @param start world position
-   * @param end world position
-   * @returns array containing world position composing the path
+   * Gets the waypoint an agent is heading to
+   * @param index agent index returned by addAgent
+   * @returns the index of the waypoint in the sequence given to agentGotoSequence, -1 when the agent follows no sequence
    */
-  computePathSmooth (start: Vector3, end: Vector3): Vector3[] {
-    this._tempVec1.x = start.x;
-    this._tempVec1.y = start.y;
-    this._tempVec1.z = start.z;
-    this._tempVec2.x = end.x;
-    this._tempVec2.y = end.y;
-    this._tempVec2.z = end.z;
-    // TODO: computePathSmooth
-    const navPath = this._navMeshQuery.computePath(this._tempVec1, this._tempVec2);
-    return this._convertNavPathPoints(navPath);
+  getAgentWaypointIndex (index: number): number {
+    const item = this.agents.indexOf(index);
+    return this._agentSequence[item]?.current ?? -1;
+  }
+
+  private _requestMoveTarget (index: number, destination: Vector3): void {
+    const agent = this.recastCrowd.getAgent(index);
+    const requested = agent?.requestMoveTarget(destination);
+
+    // arm observer
+    const item = this.agents.indexOf(index);
+    if (item > -1 && agent) {
+      this._agentDestinationArmed[item] = !!requested;
+      this._agentDestination[item].set(destination.x, destination.y, destination.z);
+      this._agentTargetState[item] = agent.raw.get_targetState();
+      this.getAgentPositionToRef(index, this._agentProgressPosition[item]);
+      this._agentNoProgressTime[item] = 0;
+      if (!requested) {
+        // the destination is not on the navmesh
+        this.onAgentPathFailedObservable.notifyObservers({ agentIndex: index, destination: destination.clone(), replanned: false });
+      }
+    }
   }
+
   /**
-   * Create a new Crowd so you can add agents
-   * @param maxAgents the maximum agent count in the crowd
-   * @param maxAgentRadius the maximum radius an agent can have
-   * @param scene to attach the crowd to
-   * @returns the crowd you can add agents to
+   * Teleport the agent to a new position
+   * @param index agent index returned by addAgent
+   * @param destination targeted world position
    */
-  createCrowd (maxAgents: number, maxAgentRadius: number, scene: Scene): ICrowd {
-    const crowd = new RecastJSCrowd(this, maxAgents, maxAgentRadius, scene);
-    return crowd;
+  agentTeleport (index: number, destination: Vector3): void {
+    const agent = this.recastCrowd.getAgent(index);
+    agent?.teleport(destination);
+
+    const item = this.agents.indexOf(index);
+    if (item > -1 && agent) {
+      this._agentTargetState[item] = agent.raw.get_targetState();
+      this.getAgentPositionToRef(index, this._agentProgressPosition[item]);
+      this._agentNoProgressTime[item] = 0;
+      // the transform does not interpolate a teleport
+      this._agentPreviousPosition[item].copyFrom(this._agentProgressPosition[item]);
+      this._writeAgentData(index);
+    }
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "agentTeleport", agentIndex: index, destination: [destination.x, destination.y, destination.z] });
+    }
+  }
+
+  /**
+   * Update agent parameters
+   * @param index agent index returned by addAgent
+   * @param parameters agent parameters
+   */
+  updateAgentParameters (index: number, parameters: Partial<IRecastAgentParameters>): void {
+    const agent = this.recastCrowd.getAgent(index)
+    if (!agent) {
+      return
+    }
+
+    const agentParams = agent.parameters();
+
+    if (!agentParams) {
+      return
+    }
+
+    if (parameters.radius !== undefined) {
+      agentParams.radius = parameters.radius;
+    }
+    if (parameters.height !== undefined) {
+      agentParams.height = parameters.height;
+    }
+    if (parameters.maxAcceleration !== undefined) {
+      agentParams.maxAcceleration = parameters.maxAcceleration;
+    }
+    if (parameters.maxSpeed !== undefined) {
+      agentParams.maxSpeed = parameters.maxSpeed;
+    }
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      if (parameters.reachRadius !== undefined) {
+        this.reachRadii[item] = parameters.reachRadius;
+      }
+      this._agentMaxSpeed[item] = parameters.maxSpeed ?? this._agentMaxSpeed[item];
+      this._agentArrival[item] = RecastJSCrowdSimulation._GetArrival(parameters, this._agentArrival[item]);
+      // the "slowDown" arrival mode scales the maximum speed down on each update
+      agentParams.maxSpeed = this._agentMaxSpeed[item];
+    }
+    if (parameters.collisionQueryRange !== undefined) {
+      agentParams.collisionQueryRange = parameters.collisionQueryRange;
+    }
+    if (parameters.pathOptimizationRange !== undefined) {
+      agentParams.pathOptimizationRange = parameters.pathOptimizationRange;
+    }
+    if (parameters.separationWeight !== undefined) {
+      agentParams.separationWeight = parameters.separationWeight;
+    }
+    if (parameters.queryFilterType !== undefined) {
+      agentParams.queryFilterType = RecastJSCrowdSimulation._GetQueryFilterType(parameters.queryFilterType);
+    }
+    if (parameters.transformOptions !== undefined) {
+      this.setAgentTransformOptions(index, parameters.transformOptions);
+    }
+
+    agent.updateParameters(agentParams);
+    if (this.onCommandObservable.hasObservers()) {
+      const transformOptions = parameters.transformOptions && { ...parameters.transformOptions };
+      this.onCommandObservable.notifyObservers({ type: "updateAgentParameters", agentIndex: index, parameters: { ...parameters, transformOptions } });
+    }
+  }
+
+  /**
+   * remove a particular agent previously created
+   * @param index agent index returned by addAgent
+   */
+  removeAgent (index: number): void {
+    this.recastCrowd.removeAgent(index);
+
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      const offMeshConnection = this._agentOffMeshConnection[item];
+      this.agents.splice(item, 1);
+      this.reachRadii.splice(item, 1);
+      this._agentDestinationArmed.splice(item, 1);
+      this._agentDestination.splice(item, 1);
+      this._agentOffMeshCorner.splice(item, 1);
+      this._agentOffMeshConnection.splice(item, 1);
+      this._agentState.splice(item, 1);
+      this._agentTargetState.splice(item, 1);
+      this._agentProgressPosition.splice(item, 1);
+      this._agentNoProgressTime.splice(item, 1);
+      this._agentTransformOptions.splice(item, 1);
+      this._agentYaw.splice(item, 1);
+      this._agentPreviousPosition.splice(item, 1);
+      this._agentArrival.splice(item, 1);
+      this._agentMaxSpeed.splice(item, 1);
+      this._agentSequence.splice(item, 1);
+      this._writeAgentData(index);
+      if (offMeshConnection) {
+        this.onOffMeshConnectionEndObservable.notifyObservers(offMeshConnection);
+      }
+    }
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "removeAgent", agentIndex: index });
+    }
+  }
+
+  /**
+   * get the list of all agents attached to this crowd
+   * @returns list of agent indices
+   */
+  getAgents (): number[] {
+    return this.agents;
+  }
+
+  /**
+   * Moves the agents and raises their events, call it on each simulation tick. RecastJSCrowd calls it on each scene update.
+   * Agent position/velocity/acceleration is updated by this function.
+   * With a time step, the crowd is stepped at that fixed rate and the time left is carried to the next update
+   * @param deltaTime in seconds
+   */
+  update (deltaTime: number): void {
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "update", deltaTime });
+    }
+    this._update(deltaTime);
+    this.onAfterUpdateObservable.notifyObservers(deltaTime);
+  }
+
+  private _update (deltaTime: number): void {
+    // update obstacles
+    this.bjsRECASTPlugin.updateTileCache();
+
+    if (deltaTime <= Epsilon) {
+      return;
+    }
+    // update crowd
+    const timeStep = this.bjsRECASTPlugin.getTimeStep();
+    const maxStepCount = this.bjsRECASTPlugin.getMaximumSubStepCount();
+    if (timeStep <= Epsilon) {
+      this._step(deltaTime);
+      this._accumulator = 0;
+      this._interpolationFactor = 1;
+    } else {
+      this._accumulator += deltaTime;
+      let stepCount = Math.floor(this._accumulator / timeStep);
+      if (maxStepCount && stepCount > maxStepCount) {
+        // the simulation can not catch up, the steps over the maximum are dropped
+        this._accumulator -= (stepCount - maxStepCount) * timeStep;
+        stepCount = maxStepCount;
+      }
+
+      for (let i = 0; i < stepCount; i++) {
+        this._step(timeStep);
+        this._accumulator -= timeStep;
+      }
+      this._interpolationFactor = Math.min(Math.max(this._accumulator / timeStep, 0), 1);
+    }
+
+    for (const agentIndex of this.agents) {
+      this._writeAgentData(agentIndex);
+    }
+    this._onAgentsMoved(deltaTime);
+
+    for (let index = 0; index < this.agents.length; index++) {
+      const agentIndex = this.agents[index];
+      const agentPosition = this._tempPosition;
+      this.getAgentPositionToRef(agentIndex, agentPosition);
+      this._checkAgentProgress(index, agentPosition, deltaTime);
+      // check agent reach destination
+      if (this._agentDestinationArmed[index]) {
+        const dx = agentPosition.x - this._agentDestination[index].x;
+        const dz = agentPosition.z - this._agentDestination[index].z;
+        const radius = this.reachRadii[index];
+        const groundY = this._agentDestination[index].y - this.reachRadii[index];
+        const ceilingY = this._agentDestination[index].y + this.reachRadii[index];
+        const distanceXZSquared = dx * dx + dz * dz;
+        if (agentPosition.y > groundY && agentPosition.y < ceilingY && distanceXZSquared < radius * radius) {
+          this._agentDestinationArmed[index] = false;
+          this.onReachTargetObservable.notifyObservers({ agentIndex: agentIndex, destination: this._agentDestination[index] });
+          const sequence = this._agentSequence[index];
+          if (sequence) {
+            sequence.waitingToStop = true;
+          }
+        }
+      }
+      this._updateArrival(index, agentPosition);
+    }
   }
 
   /**
-   * Set the Bounding box extent for doing spatial queries (getClosestPoint, getRandomPointAround, ...)
-   * The queries will try to find a solution within those bounds
-   * default is (1,1,1)
-   * @param extent x,y,z value that define the extent around the queries point of reference
+   * Called by update once the agents moved, before their events are raised
+   * @param deltaTime in seconds
    */
-  setDefaultQueryExtent (extent: Vector3): void {
-    this._tempVec1.x = extent.x;
-    this._tempVec1.y = extent.y;
-    this._tempVec1.z = extent.z;
-    this._navMeshQuery.defaultQueryHalfExtents = this._tempVec1;
-  }
+  protected _onAgentsMoved (deltaTime: number): void {}
 
   /**
-   * Get the Bounding box extent specified by setDefaultQueryExtent
-   * @returns the box extent values
+   * Copies the position, velocity and state of an agent to the data arrays, or clears them when the agent was removed
    */
-  getDefaultQueryExtent (): Vector3 {
-    this._tempVec1 = this._navMeshQuery.defaultQueryHalfExtents;
-    return new Vector3(this._tempVec1.x, this._tempVec1.y, this._tempVec1.z);
+  private _writeAgentData (agentIndex: number): void {
+    const agent = this.agents.indexOf(agentIndex) > -1 ? this.recastCrowd.getAgent(agentIndex) : null;
+    for (let i = 0; i < 3; i++) {
+      this.agentPositions[agentIndex * 3 + i] = agent ? agent.raw.get_npos(i) : 0;
+      this.agentVelocities[agentIndex * 3 + i] = agent ? agent.raw.get_vel(i) : 0;
+    }
+    this.agentStates[agentIndex] = agent ? agent.state() : Detour.DT_CROWDAGENT_STATE_INVALID;
   }
 
-  /**
- * Get the Bounding box extent result specified by setDefaultQueryExtent
- * @param result output the box extent values
- */
-  getDefaultQueryExtentToRef (result: Vector3): void {
-    this._tempVec1 = this._navMeshQuery.defaultQueryHalfExtents;
-    result.set(this._tempVec1.x, this._tempVec1.y, this._tempVec1.z);
+  private static _GetArrival (parameters: Partial<IRecastAgentParameters>, base: { mode: CrowdAgentArrivalMode; slowDownRadius: number }): { mode: CrowdAgentArrivalMode; slowDownRadius: number } {
+    const mode = parameters.arrivalMode ?? base.mode;
+    const slowDownRadius = parameters.slowDownRadius ?? base.slowDownRadius;
+    if (mode !== "stop" && mode !== "slowDown" && mode !== "continue") {
+      throw new Error(`Invalid agent parameters: arrivalMode must be "stop", "slowDown" or "continue", got ${mode}.`);
+    }
+    if (!(slowDownRadius > 0) || !isFinite(slowDownRadius)) {
+      throw new Error(`Invalid agent parameters: slowDownRadius must be a finite number greater than 0, got ${slowDownRadius}.`);
+    }
+    return { mode, slowDownRadius };
   }
 
-
   /**
-   * build the navmesh from a previously saved state using getNavmeshData
-   * @param data the Uint8Array returned by getNavmeshData
+   * Applies the arrival mode of an agent and moves it along its waypoint sequence
    */
-  buildFromNavmeshData (data: Uint8Array): void {
-    const result = importNavMesh(data);
-    this.navMesh = result.navMesh;
+  private _updateArrival (index: number, agentPosition: Vector3): void {
+    const agentIndex = this.agents[index];
+    const agent = this.recastCrowd.getAgent(agentIndex);
+    if (!agent) {
+      return;
+    }
+    const { mode, slowDownRadius } = this._agentArrival[index];
+
+    if (mode === "slowDown") {
+      let speedScale = 1;
+      if (agent.raw.get_targetState() !== Detour.DT_CROWDAGENT_TARGET_NONE) {
+        const dx = agentPosition.x - this._agentDestination[index].x;
+        const dz = agentPosition.z - this._agentDestination[index].z;
+        // keep a minimum speed so the agent still reaches its destination
+        speedScale = Math.min(Math.max(Math.sqrt(dx * dx + dz * dz) / slowDownRadius, 0.25), 1);
+      }
+      agent.raw.params.maxSpeed = this._agentMaxSpeed[index] * speedScale;
+    }
+
+    const sequence = this._agentSequence[index];
+    if (!sequence?.waitingToStop) {
+      return;
+    }
+    if (mode !== "continue") {
+      const vx = agent.raw.get_vel(0);
+      const vz = agent.raw.get_vel(2);
+      if (vx * vx + vz * vz > RecastJSCrowdSimulation._StoppedSpeed * RecastJSCrowdSimulation._StoppedSpeed) {
+        return;
+      }
+    }
+
+    sequence.waitingToStop = false;
+    let next = sequence.current + 1;
+    if (next >= sequence.points.length) {
+      if (!sequence.loop) {
+        this._agentSequence[index] = null;
+        this.onAgentSequenceCompletedObservable.notifyObservers({ agentIndex });
+        return;
+      }
+      next = 0;
+    }
+    sequence.current = next;
+    this._requestMoveTarget(agentIndex, sequence.points[next]);
   }
 
   /**
-   * returns the navmesh data that can be used later. The navmesh must be built before retrieving the data
-   * @returns data the Uint8Array that can be saved and reused
+   * Sets how the crowd updates an agent transform
+   * @param index agent index returned by addAgent
+   * @param options orientation, turn rate, slope alignment, height offset and position smoothing. Options not given are left unchanged
    */
-  getNavmeshData (): Uint8Array {
-    return exportNavMesh(this.navMesh)
+  setAgentTransformOptions (index: number, options: ICrowdAgentTransformOptions): void {
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      this._agentTransformOptions[item] = RecastJSCrowdSimulation._GetTransformOptions(options, this._agentTransformOptions[item]);
+    }
   }
 
   /**
-   * Disposes
+   * Gets how the crowd updates an agent transform
+   * @param index agent index returned by addAgent
+   * @returns the transform options, null if the agent is not in the crowd
    */
-  public dispose () { }
+  getAgentTransformOptions (index: number): Nullable<Readonly<Required<ICrowdAgentTransformOptions>>> {
+    const item = this.agents.indexOf(index);
+    return item > -1 ? this._agentTransformOptions[item] : null;
+  }
 
-  private _createTileCache () {
-    if (!this._tileCache) {
-      const { success, navMesh, tileCache } = generateTileCache(this._positions, this._indices, {
-        /* ... */
-        tileSize: 16,
-      });
-      if (!success) {
-        console.error("Unable to addCylinderObstacle.");
-        return null;
+  private static _GetTransformOptions (options: ICrowdAgentTransformOptions, base: Required<ICrowdAgentTransformOptions>): Required<ICrowdAgentTransformOptions> {
+    const result: Required<ICrowdAgentTransformOptions> = {
+      orientation: options.orientation ?? base.orientation,
+      turnRate: options.turnRate ?? base.turnRate,
+      alignToSlope: options.alignToSlope ?? base.alignToSlope,
+      heightOffset: options.heightOffset ?? base.heightOffset,
+      positionSmoothing: options.positionSmoothing ?? base.positionSmoothing,
+    };
+    if (result.orientation !== "none" && result.orientation !== "velocity" && result.orientation !== "corner") {
+      throw new Error(`Invalid agent transform options: orientation must be "none", "velocity" or "corner", got ${result.orientation}.`);
+    }
+    if (!(result.turnRate > 0)) {
+      throw new Error(`Invalid agent transform options: turnRate must be greater than 0, got ${result.turnRate}.`);
+    }
+    if (!isFinite(result.heightOffset)) {
+      throw new Error(`Invalid agent transform options: heightOffset must be a finite number, got ${result.heightOffset}.`);
+    }
+    if (!(result.positionSmoothing >= 0) || !isFinite(result.positionSmoothing)) {
+      throw new Error(`Invalid agent transform options: positionSmoothing must be a finite number greater or equal to 0, got ${result.positionSmoothing}.`);
+    }
+    return result;
+  }
+
+  private _onAgentTargetStateChanged (index: number, agent: CrowdAgent, targetState: number): void {
+    const agentIndex = this.agents[index];
+    const destination = this._agentDestination[index].clone();
+    const replanned = agent.raw.get_targetReplan();
+
+    if (targetState === Detour.DT_CROWDAGENT_TARGET_FAILED) {
+      this._agentDestinationArmed[index] = false;
+      this.onAgentPathFailedObservable.notifyObservers({ agentIndex, destination, replanned });
+    } else if (targetState === Detour.DT_CROWDAGENT_TARGET_VALID) {
+      this.onAgentPathComputedObservable.notifyObservers({ agentIndex, destination, replanned });
+
+      // the crowd keeps the target polygon and steers to the end of a partial corridor
+      const corridor = this._getAgentCorridor(agentIndex);
+      if (corridor && corridor.polys[corridor.polys.length - 1] !== agent.raw.get_targetRef()) {
+        const reachablePosition = new Vector3(corridor.target.x, corridor.target.y, corridor.target.z);
+        this.onAgentPartialPathObservable.notifyObservers({ agentIndex, destination, replanned, reachablePosition });
       }
-      this._tileCache = tileCache;
-      this.navMesh = navMesh;
     }
   }
 
-  /**
-   * Creates a cylinder obstacle and add it to the navigation
-   * @param position world position
-   * @param radius cylinder radius
-   * @param height cylinder height
-   * @returns the obstacle freshly created
-   */
-  addCylinderObstacle (position: Vector3, radius: number, height: number): IObstacle {
-    this._createTileCache();
+  private _checkAgentProgress (index: number, position: Vector3, deltaTime: number): void {
+    const anchor = this._agentProgressPosition[index];
+    if (!this._agentDestinationArmed[index] || Vector3.DistanceSquared(position, anchor) > this.stuckDetectionDistance * this.stuckDetectionDistance) {
+      anchor.copyFrom(position);
+      this._agentNoProgressTime[index] = 0;
+      return;
+    }
 
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    return this._tileCache?.addCylinderObstacle(this._tempVec1, radius, height) ?? null as any as IObstacle;
+    const previousTime = this._agentNoProgressTime[index];
+    this._agentNoProgressTime[index] += deltaTime;
+    if (previousTime < this.stuckDetectionTime && this._agentNoProgressTime[index] >= this.stuckDetectionTime) {
+      this.onAgentStuckObservable.notifyObservers({
+        agentIndex: this.agents[index],
+        position: position.clone(),
+        destination: this._agentDestination[index].clone(),
+        duration: this._agentNoProgressTime[index],
+      });
+    }
   }
 
   /**
-   * Creates an oriented box obstacle and add it to the navigation
-   * @param position world position
-   * @param extent box size
-   * @param angle angle in radians of the box orientation on Y axis
-   * @returns the obstacle freshly created
+   * Updates the crowd once and raises the events of the agents whose state changed
+   * @param deltaTime in seconds
    */
-  addBoxObstacle (position: Vector3, extent: Vector3, angle: number): IObstacle {
-    this._createTileCache();
+  private _step (deltaTime: number): void {
+    for (let index = 0; index < this.agents.length; index++) {
+      this.getAgentPositionToRef(this.agents[index], this._agentPreviousPosition[index]);
+    }
+    this.recastCrowd.update(deltaTime);
 
-    this._tempVec1.x = position.x;
-    this._tempVec1.y = position.y;
-    this._tempVec1.z = position.z;
-    this._tempVec2.x = extent.x;
-    this._tempVec2.y = extent.y;
-    this._tempVec2.z = extent.z;
-    return this._tileCache?.addBoxObstacle(this._tempVec1, this._tempVec2, angle) ?? null as any as IObstacle;
+    for (let index = 0; index < this.agents.length; index++) {
+      const agent = this.recastCrowd.getAgent(this.agents[index]);
+      if (!agent) {
+        continue;
+      }
+
+      const state = agent.state();
+      if (state !== this._agentState[index]) {
+        const previousState = this._agentState[index];
+        this._agentState[index] = state;
+        this.onAgentStateChangedObservable.notifyObservers({ agentIndex: this.agents[index], previousState, state });
+      }
+
+      const targetState = agent.raw.get_targetState();
+      if (targetState !== this._agentTargetState[index]) {
+        this._agentTargetState[index] = targetState;
+        this._onAgentTargetStateChanged(index, agent, targetState);
+      }
+
+      if (state === Detour.DT_CROWDAGENT_STATE_OFFMESH) {
+        const corner = this._agentOffMeshCorner[index];
+        if (!this._agentOffMeshConnection[index] && corner) {
+          const found = this.bjsRECASTPlugin._findOffMeshConnection(corner);
+          if (found) {
+            const { connection, reversed } = found;
+            const start = reversed ? connection.endPosition : connection.startPosition;
+            const end = reversed ? connection.startPosition : connection.endPosition;
+            const event: IOffMeshConnectionEvent = {
+              agentIndex: this.agents[index],
+              userId: connection.userId ?? 0,
+              startPosition: new Vector3(start.x, start.y, start.z),
+              endPosition: new Vector3(end.x, end.y, end.z),
+              skipTransformUpdate: false,
+            };
+            this._agentOffMeshConnection[index] = event;
+            this.onOffMeshConnectionStartObservable.notifyObservers(event);
+          }
+        }
+        continue;
+      }
+
+      const offMeshConnection = this._agentOffMeshConnection[index];
+      if (offMeshConnection) {
+        this._agentOffMeshConnection[index] = null;
+        this.onOffMeshConnectionEndObservable.notifyObservers(offMeshConnection);
+      }
+
+      // the corridor corners stop at the next off-mesh connection
+      const raw = agent.raw;
+      const cornerCount = raw.get_ncorners();
+      if (cornerCount > 0 && raw.get_cornerFlags(cornerCount - 1) & Detour.DT_STRAIGHTPATH_OFFMESH_CONNECTION) {
+        const i = (cornerCount - 1) * 3;
+        const corner = this._agentOffMeshCorner[index] ?? new Vector3();
+        this._agentOffMeshCorner[index] = corner.set(raw.get_cornerVerts(i), raw.get_cornerVerts(i + 1), raw.get_cornerVerts(i + 2));
+      } else {
+        this._agentOffMeshCorner[index] = null;
+      }
+    }
   }
 
   /**
-   * Removes an obstacle created by addCylinderObstacle or addBoxObstacle
-   * @param obstacle obstacle to remove from the navigation
+   * Gets the state of the crowd: the position, velocities, parameters and move request of the agents, their destinations, waypoints and event tracking.
+   * The corridors are searched again on restore, restoring the same state twice gives the same simulation. saveState keeps it with the navigation state
+   * @returns the crowd state, JSON serializable
    */
-  removeObstacle (obstacle: IObstacle): void {
-    this._tileCache?.removeObstacle(obstacle);
+  snapshot (): ICrowdSimulationState {
+    const toTuple = (vector: Vector3Like): Vector3Tuple => [vector.x, vector.y, vector.z];
+    const filters: INavMeshQueryFilterOptions[] = [];
+    for (let i = 0; i < RecastNavigationJSPlugin.MaxQueryFilterTypes; i++) {
+      filters.push(this.bjsRECASTPlugin._getQueryFilterOptions(this.recastCrowd.getFilter(i)));
+    }
+
+    const agents = this.agents.map((agentIndex, item): ICrowdAgentSimulationState => {
+      const offMeshCorner = this._agentOffMeshCorner[item];
+      const offMeshConnection = this._agentOffMeshConnection[item];
+      const sequence = this._agentSequence[item];
+      const agent = this.recastCrowd.getAgent(agentIndex)!;
+      const raw = agent.raw;
+      const { userData, ...parameters } = agent.parameters();
+      const targetState = raw.get_targetState();
+      const moveTarget = targetState === Detour.DT_CROWDAGENT_TARGET_NONE || targetState === Detour.DT_CROWDAGENT_TARGET_FAILED ? null : {
+        type: targetState === Detour.DT_CROWDAGENT_TARGET_VELOCITY ? "velocity" as const : "position" as const,
+        value: [raw.get_targetPos(0), raw.get_targetPos(1), raw.get_targetPos(2)] as Vector3Tuple,
+      };
+      return {
+        agentIndex,
+        position: [raw.get_npos(0), raw.get_npos(1), raw.get_npos(2)],
+        velocity: [raw.get_vel(0), raw.get_vel(1), raw.get_vel(2)],
+        desiredVelocity: [raw.get_dvel(0), raw.get_dvel(1), raw.get_dvel(2)],
+        parameters,
+        moveTarget,
+        reachRadius: this.reachRadii[item],
+        destination: toTuple(this._agentDestination[item]),
+        destinationArmed: this._agentDestinationArmed[item],
+        offMeshCorner: offMeshCorner && toTuple(offMeshCorner),
+        offMeshConnection: offMeshConnection && {
+          userId: offMeshConnection.userId,
+          startPosition: toTuple(offMeshConnection.startPosition),
+          endPosition: toTuple(offMeshConnection.endPosition),
+          skipTransformUpdate: offMeshConnection.skipTransformUpdate,
+        },
+        state: this._agentState[item],
+        targetState: this._agentTargetState[item],
+        progressPosition: toTuple(this._agentProgressPosition[item]),
+        noProgressTime: this._agentNoProgressTime[item],
+        transformOptions: { ...this._agentTransformOptions[item] },
+        yaw: this._agentYaw[item],
+        previousPosition: toTuple(this._agentPreviousPosition[item]),
+        arrival: { ...this._agentArrival[item] },
+        maxSpeed: this._agentMaxSpeed[item],
+        waypoints: sequence && {
+          points: sequence.points.map(toTuple),
+          loop: sequence.loop,
+          current: sequence.current,
+          waitingToStop: sequence.waitingToStop,
+        },
+      };
+    });
+
+    return {
+      profile: this.profile,
+      maxAgents: this.recastCrowd.getAgentCount(),
+      maxAgentRadius: this._maxAgentRadius,
+      filters,
+      accumulator: this._accumulator,
+      interpolationFactor: this._interpolationFactor,
+      stuckDetectionTime: this.stuckDetectionTime,
+      stuckDetectionDistance: this.stuckDetectionDistance,
+      agents,
+    };
   }
 
   /**
-   * If this plugin is supported
-   * @returns true if plugin is supported
+   * Replaces the agents of the crowd with the ones of a state returned by snapshot, with their agent index. No agent event fires.
+   * The agents are added at their position and ask for the path to their move target again.
+   * An agent on an off-mesh connection is placed on the nearest polygon, its traversal ends on the next update.
+   * recastCrowd is replaced by a new Detour crowd
+   * @param state crowd state of the same profile and maximum agent count
    */
-  public isSupported (): boolean {
-    return true;
+  restore (state: ICrowdSimulationState): void {
+    const maxAgents = this.recastCrowd.getAgentCount();
+    if (state.profile !== this.profile || state.maxAgents !== maxAgents) {
+      throw new Error(`Unable to restore the crowd: the state is for ${state.maxAgents} agents on the ${state.profile} profile, this crowd has ${maxAgents} agents on the ${this.profile} profile.`);
+    }
+
+    // a new Detour crowd, its path queue serves the requests in the order of a crowd that just started
+    this.recastCrowd.destroy();
+    this.recastCrowd = new Crowd(this.bjsRECASTPlugin._getProfile(this.profile).navMesh, {
+      maxAgents,
+      maxAgentRadius: this._maxAgentRadius,
+    });
+    this.agents.length = 0;
+    this.reachRadii.length = 0;
+    this._agentDestinationArmed.length = 0;
+    this._agentDestination.length = 0;
+    this._agentOffMeshCorner.length = 0;
+    this._agentOffMeshConnection.length = 0;
+    this._agentState.length = 0;
+    this._agentTargetState.length = 0;
+    this._agentProgressPosition.length = 0;
+    this._agentNoProgressTime.length = 0;
+    this._agentTransformOptions.length = 0;
+    this._agentYaw.length = 0;
+    this._agentPreviousPosition.length = 0;
+    this._agentArrival.length = 0;
+    this._agentMaxSpeed.length = 0;
+    this._agentSequence.length = 0;
+    this.agentPositions.fill(0);
+    this.agentVelocities.fill(0);
+    this.agentStates.fill(Detour.DT_CROWDAGENT_STATE_INVALID);
+    state.filters.forEach((options, queryFilterType) => this.bjsRECASTPlugin._configureQueryFilter(this.recastCrowd.getFilter(queryFilterType), options));
+
+    // Detour gives the first free index to a new agent, placeholders take the indices of the agents not in the state
+    const placeholders: number[] = [];
+    const sorted = state.agents.slice().sort((a, b) => a.agentIndex - b.agentIndex);
+    for (let i = 0; i < sorted.length; i++) {
+      const saved = sorted[i];
+      while (placeholders.length + i < saved.agentIndex) {
+        placeholders.push(this.recastCrowd.addAgent({ x: 0, y: 0, z: 0 }, {}).agentIndex);
+      }
+      const [x, y, z] = saved.position;
+      const agent = this.recastCrowd.addAgent({ x, y, z }, saved.parameters);
+      if (agent.agentIndex !== saved.agentIndex) {
+        throw new Error(`Unable to restore crowd agent ${saved.agentIndex}: the crowd is full.`);
+      }
+      const raw = agent.raw;
+      for (let i = 0; i < 3; i++) {
+        raw.set_vel(i, saved.velocity[i]);
+        raw.set_dvel(i, saved.desiredVelocity[i]);
+      }
+      if (saved.moveTarget) {
+        const [tx, ty, tz] = saved.moveTarget.value;
+        if (saved.moveTarget.type === "velocity") {
+          agent.requestMoveVelocity({ x: tx, y: ty, z: tz });
+        } else {
+          agent.requestMoveTarget({ x: tx, y: ty, z: tz });
+        }
+      }
+    }
+    for (const placeholder of placeholders) {
+      this.recastCrowd.removeAgent(placeholder);
+    }
+
+    for (const saved of state.agents) {
+      const { offMeshCorner, offMeshConnection, waypoints } = saved;
+      this.agents.push(saved.agentIndex);
+      this.reachRadii.push(saved.reachRadius);
+      this._agentDestinationArmed.push(saved.destinationArmed);
+      this._agentDestination.push(Vector3.FromArray(saved.destination));
+      this._agentOffMeshCorner.push(offMeshCorner && Vector3.FromArray(offMeshCorner));
+      this._agentOffMeshConnection.push(offMeshConnection && {
+        agentIndex: saved.agentIndex,
+        userId: offMeshConnection.userId,
+        startPosition: Vector3.FromArray(offMeshConnection.startPosition),
+        endPosition: Vector3.FromArray(offMeshConnection.endPosition),
+        skipTransformUpdate: offMeshConnection.skipTransformUpdate,
+      });
+      this._agentState.push(saved.state);
+      this._agentTargetState.push(saved.targetState);
+      this._agentProgressPosition.push(Vector3.FromArray(saved.progressPosition));
+      this._agentNoProgressTime.push(saved.noProgressTime);
+      this._agentTransformOptions.push({ ...saved.transformOptions });
+      this._agentYaw.push(saved.yaw);
+      this._agentPreviousPosition.push(Vector3.FromArray(saved.previousPosition));
+      this._agentArrival.push({ ...saved.arrival });
+      this._agentMaxSpeed.push(saved.maxSpeed);
+      this._agentSequence.push(waypoints && {
+        points: waypoints.points.map((point) => Vector3.FromArray(point)),
+        loop: waypoints.loop,
+        current: waypoints.current,
+        waitingToStop: waypoints.waitingToStop,
+      });
+      this._writeAgentData(saved.agentIndex);
+    }
+
+    this._accumulator = state.accumulator;
+    this._interpolationFactor = state.interpolationFactor;
+    this.stuckDetectionTime = state.stuckDetectionTime;
+    this.stuckDetectionDistance = state.stuckDetectionDistance;
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "restore", state });
+    }
   }
 
   /**
-   * Returns the seed used for randomized functions like `getRandomPointAround`
-   * @returns seed number
+   * Set the Bounding box extent for doing spatial queries (getClosestPoint, getRandomPointAround, ...)
+   * The queries will try to find a solution within those bounds
+   * default is (1,1,1)
+   * @param extent x,y,z value that define the extent around the queries point of reference
    */
-  public getRandomSeed (): number {
-    return getRandomSeed();
+  setDefaultQueryExtent (extent: Vector3): void {
+    this.bjsRECASTPlugin.setDefaultQueryExtent(extent);
   }
 
   /**
-   * Set the seed used for randomized functions like `getRandomPointAround`
-   * @param seed number used as seed for random functions
+   * Get the Bounding box extent specified by setDefaultQueryExtent
+   * @returns the box extent values
    */
-  public setRandomSeed (seed: number): void {
-    setRandomSeed(seed);
+  getDefaultQueryExtent (): Vector3 {
+    const p = this.bjsRECASTPlugin.getDefaultQueryExtent();
+    return new Vector3(p.x, p.y, p.z);
   }
-}
 
-/**
- * Recast detour crowd implementation
- */
-export class RecastJSCrowd implements ICrowd {
-  /**
-   * Recast/detour plugin
-   */
-  public bjsRECASTPlugin: RecastNavigationJSPlugin;
-  /**
-   * Link to the detour crowd
-   */
-  public recastCrowd: Crowd;
-  /**
-   * One transform per agent
-   */
-  public transforms: TransformNode[] = new Array<TransformNode>();
-  /**
-   * All agents created
-   */
-  public agents: number[] = new Array<number>();
   /**
-   * agents reach radius
+   * Get the Bounding box extent result specified by setDefaultQueryExtent
+   * @param result output the box extent values
    */
-  public reachRadii: number[] = new Array<number>();
+  getDefaultQueryExtentToRef (result: Vector3): void {
+    const p = this.bjsRECASTPlugin.getDefaultQueryExtent();
+    result.set(p.x, p.y, p.z);
+  }
+
   /**
-   * true when a destination is active for an agent and notifier hasn't been notified of reach
+   * Sets the included and excluded polygon flags and the area costs of a crowd query filter.
+   * Agents use the filter whose index is their queryFilterType
+   * @param queryFilterType index of the filter, between 0 and 15
+   * @param options included and excluded polygon flags and area costs
    */
-  private _agentDestinationArmed: boolean[] = new Array<boolean>();
+  setFilter (queryFilterType: number, options: INavMeshQueryFilterOptions): void {
+    const filter = this.recastCrowd.getFilter(RecastJSCrowdSimulation._GetQueryFilterType(queryFilterType));
+    this.bjsRECASTPlugin._configureQueryFilter(filter, options);
+    if (this.onCommandObservable.hasObservers()) {
+      this.onCommandObservable.notifyObservers({ type: "setFilter", queryFilterType, options: this.bjsRECASTPlugin._getQueryFilterOptions(filter) });
+    }
+  }
+
   /**
-   * agent current target
+   * Gets a crowd query filter
+   * @param queryFilterType index of the filter, between 0 and 15
+   * @returns the query filter
    */
-  private _agentDestination: Vector3[] = new Array<Vector3>();
+  getFilter (queryFilterType: number): QueryFilter {
+    return this.recastCrowd.getFilter(RecastJSCrowdSimulation._GetQueryFilterType(queryFilterType));
+  }
+
+  private static _GetQueryFilterType (queryFilterType: number): number {
+    if (!Number.isInteger(queryFilterType) || queryFilterType < 0 || queryFilterType >= RecastNavigationJSPlugin.MaxQueryFilterTypes) {
+      throw new Error(`Invalid queryFilterType: it must be an integer between 0 and ${RecastNavigationJSPlugin.MaxQueryFilterTypes - 1}, got ${queryFilterType}.`);
+    }
+    return queryFilterType;
+  }
+
   /**
-   * Link to the scene is kept to unregister the crowd from the scene
+   * Get the next corner points composing the path (max 4 points)
+   * @param index agent index returned by addAgent
+   * @returns array containing world position composing the path
    */
-  private _scene: Scene;
+  getCorners (index: number): Vector3[] {
+    return this.getCornersWithFlags(index).map((corner) => corner.position);
+  }
 
   /**
-   * Observer for crowd updates
+   * Get the next corners of the agent straight path with their flags (max 4 corners).
+   * The corners stop at the next off-mesh connection
+   * @param index agent index returned by addAgent
+   * @returns the corners, empty when the agent has no path
    */
-  private _onBeforeAnimationsObserver: Nullable<Observer<Scene>> = null;
+  getCornersWithFlags (index: number): ICrowdAgentCorner[] {
+    const agent = this.recastCrowd.getAgent(index);
+    if (!agent) {
+      return [];
+    }
+    const raw = agent.raw;
+    const corners: ICrowdAgentCorner[] = [];
+    for (let i = 0; i < raw.get_ncorners(); i++) {
+      corners.push({
+        position: new Vector3(raw.get_cornerVerts(i * 3), raw.get_cornerVerts(i * 3 + 1), raw.get_cornerVerts(i * 3 + 2)),
+        flags: raw.get_cornerFlags(i),
+      });
+    }
+    return corners;
+  }
 
   /**
-   * Fires each time an agent is in reach radius of its destination
+   * Gets the polygon the agent is moving to, the one containing its destination
+   * @param index agent index returned by addAgent
+   * @returns the polygon ref, 0 when the agent has no destination
    */
-  public onReachTargetObservable = new Observable<{ agentIndex: number; destination: Vector3 }>();
+  getAgentTargetPolygon (index: number): number {
+    const agent = this.recastCrowd.getAgent(index);
+    if (!agent || agent.raw.get_targetState() === Detour.DT_CROWDAGENT_TARGET_FAILED) {
+      return 0;
+    }
+    return agent.raw.get_targetRef();
+  }
 
   /**
-   * Constructor
-   * @param plugin recastJS plugin
-   * @param maxAgents the maximum agent count in the crowd
-   * @param maxAgentRadius the maximum radius an agent can have
-   * @param scene to attach the crowd to
-   * @returns the crowd you can add agents to
+   * Gets the polygons the agent will cross to reach its destination, read from the corridor the crowd steers the agent along
+   * @param index agent index returned by addAgent
+   * @returns the polygon refs from the agent polygon to the target polygon, empty when the agent has no destination or no path
    */
-  public constructor(plugin: RecastNavigationJSPlugin, maxAgents: number, maxAgentRadius: number, scene: Scene) {
-    this.bjsRECASTPlugin = plugin;
-    this.recastCrowd = new Crowd(plugin.navMesh, {
-      maxAgents,
-      maxAgentRadius,
-    })
-    this._scene = scene;
-
-    this._onBeforeAnimationsObserver = scene.onBeforeAnimationsObservable.add(() => {
-      this.update(scene.getEngine().getDeltaTime() * 0.001 * plugin.timeFactor);
-    });
+  getAgentCorridor (index: number): number[] {
+    return this._getAgentCorridor(index)?.polys ?? [];
   }
 
   /**
-   * Add a new agent to the crowd with the specified parameter a corresponding transformNode.
-   * You can attach anything to that node. The node position is updated in the scene update tick.
-   * @param pos world position that will be constrained by the navigation mesh
-   * @param parameters agent parameters
-   * @param transform hooked to the agent that will be update by the scene
-   * @returns agent index
+   * Gets the length of the path left to the agent destination, following the corridor corners.
+   * Off-mesh connections count as a straight line between their endpoints
+   * @param index agent index returned by addAgent
+   * @returns the length in world units, 0 when the agent has no destination or no path
    */
-  addAgent (pos: Vector3, parameters: IAgentParameters, transform: TransformNode): number {
-    const agentParams: IAgentParameters = {
-
-      radius: parameters.radius,
-      height: parameters.height,
-      maxAcceleration: parameters.maxAcceleration,
-      maxSpeed: parameters.maxSpeed,
-      collisionQueryRange: parameters.collisionQueryRange,
-      pathOptimizationRange: parameters.pathOptimizationRange,
-      separationWeight: parameters.separationWeight,
-      reachRadius: parameters.reachRadius ? parameters.reachRadius : parameters.radius
-      // reachRadius: 0
-      // updateFlags : 7,
-      // obstacleAvoidanceType : 0,
-      // queryFilterType : 0,
-      // userData : 0,
+  getAgentRemainingPathLength (index: number): number {
+    const corridor = this._getAgentCorridor(index);
+    if (!corridor) {
+      return 0;
     }
 
-    const agent = this.recastCrowd.addAgent({ x: pos.x, y: pos.y, z: pos.z }, agentParams);
-    this.transforms.push(transform);
-    this.agents.push(agent.agentIndex);
-    // this.reachRadii.push(parameters.reachRadius ? parameters.reachRadius : parameters.radius);
-    this._agentDestinationArmed.push(false);
-    this._agentDestination.push(new Vector3(0, 0, 0));
-    return agent.agentIndex;
+    const { position, target, polys } = corridor;
+    const { success, straightPath, straightPathFlags, straightPathRefs, straightPathCount } = this.recastCrowd.navMeshQuery.findStraightPath(position, target, polys);
+    let length = 0;
+    if (success) {
+      for (let i = 1; i < straightPathCount; i++) {
+        const dx = straightPath.get(i * 3) - straightPath.get(i * 3 - 3);
+        const dy = straightPath.get(i * 3 + 1) - straightPath.get(i * 3 - 2);
+        const dz = straightPath.get(i * 3 + 2) - straightPath.get(i * 3 - 1);
+        length += Math.sqrt(dx * dx + dy * dy + dz * dz);
+      }
+    }
+    straightPath.destroy();
+    straightPathFlags.destroy();
+    straightPathRefs.destroy();
+    return length;
   }
 
-  /**
-   * Returns the agent position in world space
-   * @param index agent index returned by addAgent
-   * @returns world space position
-   */
-  getAgentPosition (index: number): Vector3 {
-    const agentPos = this.recastCrowd.getAgent(index)?.position() ?? { x: 0, y: 0, z: 0 };
-    return new Vector3(agentPos.x, agentPos.y, agentPos.z);
+  private _getAgentCorridor (index: number): Nullable<ICrowdAgentCorridor> {
+    if (!this.getAgentTargetPolygon(index)) {
+      return null;
+    }
+
+    const corridor = readCrowdAgentCorridor(this.recastCrowd, index);
+    return corridor.polys.length > 0 ? corridor : null;
   }
 
   /**
-   * Returns the agent position result in world space
-   * @param index agent index returned by addAgent
-   * @param result output world space position
+   * Release all resources
    */
-  getAgentPositionToRef (index: number, result: Vector3): void {
-    const agentPos = this.recastCrowd.getAgent(index)?.position() ?? { x: 0, y: 0, z: 0 };
-    result.set(agentPos.x, agentPos.y, agentPos.z);
+  dispose (): void {
+    this.recastCrowd.destroy();
+    this.onReachTargetObservable.clear();
+    this.onAgentSequenceCompletedObservable.clear();
+    this.onOffMeshConnectionStartObservable.clear();
+    this.onOffMeshConnectionEndObservable.clear();
+    this.onAgentStateChangedObservable.clear();
+    this.onAgentStuckObservable.clear();
+    this.onAgentPathComputedObservable.clear();
+    this.onAgentPathFailedObservable.clear();
+    this.onAgentPartialPathObservable.clear();
+    this.onCommandObservable.clear();
+    this.onAfterUpdateObservable.clear();
   }
+}
 
+/**
+ * Recast detour crowd implementation, moving one transform node per agent on each scene update
+ */
+export class RecastJSCrowd extends RecastJSCrowdSimulation implements ICrowd {
   /**
-   * Returns the agent velocity in world space
-   * @param index agent index returned by addAgent
-   * @returns world space velocity
+   * One transform per agent
    */
-  getAgentVelocity (index: number): Vector3 {
-    const agentVel = this.recastCrowd.getAgent(index)?.velocity() ?? { x: 0, y: 0, z: 0 };
-    return new Vector3(agentVel.x, agentVel.y, agentVel.z);
-  }
-
+  public transforms: TransformNode[] = new Array<TransformNode>();
   /**
-   * Returns the agent velocity result in world space
-   * @param index agent index returned by addAgent
-   * @param result output world space velocity
+   * agent position followed by the transform when position smoothing is enabled
    */
-  getAgentVelocityToRef (index: number, result: Vector3): void {
-    const agentVel = this.recastCrowd.getAgent(index)?.velocity() ?? { x: 0, y: 0, z: 0 };
-    result.set(agentVel.x, agentVel.y, agentVel.z);
-  }
+  private _agentSmoothedPosition: Vector3[] = new Array<Vector3>();
+
+  private _tempAgentPosition = new Vector3();
+  private _tempInterpolatedPosition = new Vector3();
+  private _tempDirection = new Vector3();
+  private _tempForward = new Vector3();
+  private _tempRight = new Vector3();
+  private _tempNormal = new Vector3();
+  private _tempSample1 = new Vector3();
+  private _tempSample2 = new Vector3();
 
   /**
-   * Returns the agent next target point on the path
-   * @param index agent index returned by addAgent
-   * @returns world space position
+   * Link to the scene is kept to unregister the crowd from the scene
    */
-  getAgentNextTargetPath (index: number): Vector3 {
-    const pathTargetPos = this.recastCrowd.getAgent(index)?.nextTargetInPath() ?? { x: 0, y: 0, z: 0 };
-    return new Vector3(pathTargetPos.x, pathTargetPos.y, pathTargetPos.z);
-  }
+  private _scene: Scene;
 
   /**
-   * Returns the agent next target point on the path
-   * @param index agent index returned by addAgent
-   * @param result output world space position
+   * Observer for crowd updates
    */
-  getAgentNextTargetPathToRef (index: number, result: Vector3): void {
-    const pathTargetPos = this.recastCrowd.getAgent(index)?.nextTargetInPath() ?? { x: 0, y: 0, z: 0 };
-    result.set(pathTargetPos.x, pathTargetPos.y, pathTargetPos.z);
-  }
+  private _onBeforeAnimationsObserver: Nullable<Observer<Scene>> = null;
 
   /**
-   * Gets the agent state
-   * @param index agent index returned by addAgent
-   * @returns agent state
+   * Constructor
+   * @param plugin recastJS plugin
+   * @param maxAgents the maximum agent count in the crowd
+   * @param maxAgentRadius the maximum radius an agent can have
+   * @param scene to attach the crowd to
+   * @param profile navmesh profile the agents move on, the default profile when not provided
+   * @returns the crowd you can add agents to
    */
-  getAgentState (index: number): number {
-    return this.recastCrowd.getAgent(index)?.state() ?? 0; // invalid
+  public constructor(plugin: RecastNavigationJSPlugin, maxAgents: number, maxAgentRadius: number, scene: Scene, profile: string = RecastNavigationJSPlugin.DefaultProfile) {
+    super(plugin, maxAgents, maxAgentRadius, profile);
+    this._scene = scene;
+
+    this._onBeforeAnimationsObserver = scene.onBeforeAnimationsObservable.add(() => {
+      this.update(scene.getEngine().getDeltaTime() * 0.001 * plugin.timeFactor);
+    });
   }
 
   /**
-   * returns true if the agent in over an off mesh link connection
-   * @param index agent index returned by addAgent
-   * @returns true if over an off mesh link connection
+   * Add a new agent to the crowd with the specified parameter a corresponding transformNode.
+   * You can attach anything to that node. The node position is updated in the scene update tick.
+   * @param pos world position that will be constrained by the navigation mesh
+   * @param parameters agent parameters
+   * @param transform hooked to the agent that will be update by the scene, a new transform node is created when not given
+   * @returns agent index
    */
-  overOffmeshConnection (index: number): boolean {
-    return this.recastCrowd.getAgent(index)?.overOffMeshConnection() ?? false;
+  addAgent (pos: Vector3, parameters: IRecastAgentParameters, transform?: TransformNode): number {
+    const agentIndex = super.addAgent(pos, parameters);
+    const node = transform ?? new TransformNode(`crowdAgent${agentIndex}`, this._scene);
+    this.transforms.push(node);
+    this._agentYaw[this._agentYaw.length - 1] = node.rotationQuaternion ? node.rotationQuaternion.toEulerAngles().y : node.rotation.y;
+    this._agentSmoothedPosition.push(this.getAgentPosition(agentIndex));
+    return agentIndex;
   }
 
   /**
-   * Asks a particular agent to go to a destination. That destination is constrained by the navigation mesh
+   * Teleport the agent to a new position
    * @param index agent index returned by addAgent
    * @param destination targeted world position
    */
-  agentGoto (index: number, destination: Vector3): void {
-    this.recastCrowd.getAgent(index)?.requestMoveTarget(destination);
+  agentTeleport (index: number, destination: Vector3): void {
+    super.agentTeleport(index, destination);
 
-    // arm observer
     const item = this.agents.indexOf(index);
     if (item > -1) {
-      this._agentDestinationArmed[item] = true;
-      this._agentDestination[item].set(destination.x, destination.y, destination.z);
+      // the transform does not smooth a teleport
+      this.getAgentPositionToRef(index, this._agentSmoothedPosition[item]);
     }
   }
 
   /**
-   * Teleport the agent to a new position
+   * remove a particular agent previously created
    * @param index agent index returned by addAgent
-   * @param destination targeted world position
    */
-  agentTeleport (index: number, destination: Vector3): void {
-    this.recastCrowd.getAgent(index)?.teleport(destination);
+  removeAgent (index: number): void {
+    const item = this.agents.indexOf(index);
+    if (item > -1) {
+      this.transforms.splice(item, 1);
+      this._agentSmoothedPosition.splice(item, 1);
+    }
+    super.removeAgent(index);
   }
 
   /**
-   * Update agent parameters
-   * @param index agent index returned by addAgent
-   * @param parameters agent parameters
+   * Replaces the agents of the crowd with the ones of a state returned by snapshot, with their agent index. No agent event fires.
+   * The agents already in the crowd keep their transform, the other ones get a new transform node
+   * @param state crowd state of the same profile and maximum agent count
    */
-  updateAgentParameters (index: number, parameters: IAgentParameters): void {
-    const agent = this.recastCrowd.getAgent(index)
-    if (!agent) {
-      return
+  restore (state: ICrowdSimulationState): void {
+    const transforms = new Map<number, TransformNode>();
+    this.agents.forEach((agentIndex, item) => transforms.set(agentIndex, this.transforms[item]));
+    super.restore(state);
+
+    this.transforms.length = 0;
+    this._agentSmoothedPosition.length = 0;
+    for (const agentIndex of this.agents) {
+      this.transforms.push(transforms.get(agentIndex) ?? new TransformNode(`crowdAgent${agentIndex}`, this._scene));
+      this._agentSmoothedPosition.push(this.getAgentPosition(agentIndex));
     }
+  }
 
-    const agentParams = agent.parameters();
-
-    if (!agentParams) {
-      return
+  /**
+   * Updates the transforms, interpolated between the last two simulation steps
+   */
+  protected _onAgentsMoved (deltaTime: number): void {
+    for (let index = 0; index < this.agents.length; index++) {
+      // update transform position
+      const agentPosition = this._tempAgentPosition;
+      this.getAgentPositionToRef(this.agents[index], agentPosition);
+      if (this._agentOffMeshConnection[index]?.skipTransformUpdate) {
+        this._agentSmoothedPosition[index].copyFrom(agentPosition);
+      } else {
+        const interpolatedPosition = this._tempInterpolatedPosition;
+        Vector3.LerpToRef(this._agentPreviousPosition[index], agentPosition, this._interpolationFactor, interpolatedPosition);
+        this._updateTransform(index, interpolatedPosition, deltaTime);
+      }
     }
+  }
 
-    if (parameters.radius !== undefined) {
-      agentParams.radius = parameters.radius;
-    }
-    if (parameters.height !== undefined) {
-      agentParams.height = parameters.height;
+  private _updateTransform (index: number, agentPosition: Vector3, deltaTime: number): void {
+    const transform = this.transforms[index];
+    const options = this._agentTransformOptions[index];
+
+    const smoothedPosition = this._agentSmoothedPosition[index];
+    if (options.positionSmoothing > 0) {
+      Vector3.LerpToRef(smoothedPosition, agentPosition, 1 - Math.exp(-deltaTime / options.positionSmoothing), smoothedPosition);
+    } else {
+      smoothedPosition.copyFrom(agentPosition);
     }
-    if (parameters.maxAcceleration !== undefined) {
-      agentParams.maxAcceleration = parameters.maxAcceleration;
+    transform.position.set(smoothedPosition.x, smoothedPosition.y + options.heightOffset, smoothedPosition.z);
+
+    if (options.orientation === "none") {
+      return;
     }
-    if (parameters.maxSpeed !== undefined) {
-      agentParams.maxSpeed = parameters.maxSpeed;
+
+    const agentIndex = this.agents[index];
+    const direction = this._tempDirection;
+    if (options.orientation === "velocity") {
+      this.getAgentVelocityToRef(agentIndex, direction);
+    } else if (this.recastCrowd.getAgent(agentIndex)?.raw.get_ncorners()) {
+      this.getAgentNextTargetPathToRef(agentIndex, direction);
+      direction.subtractInPlace(agentPosition);
+    } else {
+      direction.setAll(0);
     }
-    if (parameters.collisionQueryRange !== undefined) {
-      agentParams.collisionQueryRange = parameters.collisionQueryRange;
+
+    // keep the current yaw while the agent stands still
+    let yaw = this._agentYaw[index];
+    if (direction.x * direction.x + direction.z * direction.z > Epsilon) {
+      const targetYaw = Math.atan2(direction.x, direction.z);
+      const delta = Math.atan2(Math.sin(targetYaw - yaw), Math.cos(targetYaw - yaw));
+      const maxDelta = options.turnRate * deltaTime;
+      yaw += Math.max(-maxDelta, Math.min(maxDelta, delta));
+      this._agentYaw[index] = yaw;
     }
-    if (parameters.pathOptimizationRange !== undefined) {
-      agentParams.pathOptimizationRange = parameters.pathOptimizationRange;
+
+    if (!options.alignToSlope) {
+      if (transform.rotationQuaternion) {
+        Quaternion.RotationYawPitchRollToRef(yaw, 0, 0, transform.rotationQuaternion);
+      } else {
+        transform.rotation.y = yaw;
+      }
+      return;
     }
-    if (parameters.separationWeight !== undefined) {
-      agentParams.separationWeight = parameters.separationWeight;
+
+    const forward = this._tempForward.set(Math.sin(yaw), 0, Math.cos(yaw));
+    const right = this._tempRight.set(forward.z, 0, -forward.x);
+    const normal = this._computeSlopeNormalToRef(agentIndex, agentPosition, forward, right, this._tempNormal);
+
+    // forward along the slope, then right completes the basis
+    forward.subtractInPlace(normal.scaleToRef(Vector3.Dot(forward, normal), this._tempSample1)).normalize();
+    Vector3.CrossToRef(normal, forward, right);
+    if (!transform.rotationQuaternion) {
+      transform.rotationQuaternion = new Quaternion();
     }
+    Quaternion.RotationQuaternionFromAxisToRef(right, normal, forward, transform.rotationQuaternion);
+  }
 
-    agent.updateParameters(agentParams);
+  private _computeSlopeNormalToRef (agentIndex: number, agentPosition: Vector3, forward: Vector3, right: Vector3, result: Vector3): Vector3 {
+    // sample the navmesh height in front of and beside the agent
+    const distance = this.recastCrowd.getAgent(agentIndex)?.raw.params.radius || 0.5;
+    const forwardSample = this._tempSample1;
+    const rightSample = this._tempSample2;
+    forward.scaleToRef(distance, forwardSample).addInPlace(agentPosition);
+    right.scaleToRef(distance, rightSample).addInPlace(agentPosition);
+    this.bjsRECASTPlugin.getClosestPointToRef(forwardSample, forwardSample, undefined, this.profile);
+    this.bjsRECASTPlugin.getClosestPointToRef(rightSample, rightSample, undefined, this.profile);
+    forwardSample.subtractInPlace(agentPosition);
+    rightSample.subtractInPlace(agentPosition);
+
+    Vector3.CrossToRef(forwardSample, rightSample, result);
+    const length = result.length();
+    if (length < Epsilon) {
+      return result.copyFromFloats(0, 1, 0);
+    }
+    result.scaleInPlace(result.y < 0 ? -1 / length : 1 / length);
+    return result;
   }
 
   /**
-   * remove a particular agent previously created
-   * @param index agent index returned by addAgent
+   * Release all resources
    */
-  removeAgent (index: number): void {
-    this.recastCrowd.removeAgent(index);
-
-    const item = this.agents.indexOf(index);
-    if (item > -1) {
-      this.agents.splice(item, 1);
-      this.transforms.splice(item, 1);
-      this.reachRadii.splice(item, 1);
-      this._agentDestinationArmed.splice(item, 1);
-      this._agentDestination.splice(item, 1);
-    }
+  dispose (): void {
+    this._scene.onBeforeAnimationsObservable.remove(this._onBeforeAnimationsObserver);
+    this._onBeforeAnimationsObserver = null;
+    super.dispose();
   }
+}
 
+/**
+ * Obstacle of a tile cache navmesh, returned by addCylinderObstacle and addBoxObstacle.
+ * Changes are carved into the navmesh by the next tile cache update, see onObstaclesAppliedObservable
+ */
+export abstract class RecastJSObstacle implements IObstacle {
   /**
-   * get the list of all agents attached to this crowd
-   * @returns list of agent indices
+   * world position of the obstacle
    */
-  getAgents (): number[] {
-    return this.agents;
-  }
+  public readonly position: Vector3;
 
   /**
-   * Tick update done by the Scene. Agent position/velocity/acceleration is updated by this function
-   * @param deltaTime in seconds
+   * the recast-navigation obstacle, null once removed
+   * @internal
    */
-  update (deltaTime: number): void {
-    // update obstacles
-    this.recastCrowd.update(deltaTime);
+  public _ref: Nullable<Obstacle> = null;
 
-    if (deltaTime <= Epsilon) {
-      return;
-    }
-    // update crowd
-    const timeStep = this.bjsRECASTPlugin.getTimeStep();
-    const maxStepCount = this.bjsRECASTPlugin.getMaximumSubStepCount();
-    if (timeStep <= Epsilon) {
-      this.recastCrowd.update(deltaTime);
-    } else {
-      let iterationCount = Math.floor(deltaTime / timeStep);
-      if (maxStepCount && iterationCount > maxStepCount) {
-        iterationCount = maxStepCount;
-      }
-      if (iterationCount < 1) {
-        iterationCount = 1;
-      }
+  /**
+   * Constructor
+   * @param plugin recastJS plugin owning the tile cache
+   * @param position world position of the obstacle
+   */
+  protected constructor(protected _plugin: RecastNavigationJSPlugin, position: Vector3) {
+    this.position = position.clone();
+  }
 
-      const step = deltaTime / iterationCount;
-      for (let i = 0; i < iterationCount; i++) {
-        this.recastCrowd.update(step);
-      }
-    }
+  /**
+   * true once the obstacle is removed from the navigation, or when the navmesh it was added to has been replaced
+   */
+  public get isRemoved (): boolean {
+    return this._ref === null;
+  }
 
-    // update transforms
-    for (let index = 0; index < this.agents.length; index++) {
-      // update transform position
-      const agentIndex = this.agents[index];
-      const agentPosition = this.getAgentPosition(agentIndex);
-      this.transforms[index].position = agentPosition;
-      // check agent reach destination
-      if (this._agentDestinationArmed[index]) {
-        const dx = agentPosition.x - this._agentDestination[index].x;
-        const dz = agentPosition.z - this._agentDestination[index].z;
-        const radius = this.reachRadii[index];
-        const groundY = this._agentDestination[index].y - this.reachRadii[index];
-        const ceilingY = this._agentDestination[index].y + this.reachRadii[index];
-        const distanceXZSquared = dx * dx + dz * dz;
-        if (agentPosition.y > groundY && agentPosition.y < ceilingY && distanceXZSquared < radius * radius) {
-          this._agentDestinationArmed[index] = false;
-          this.onReachTargetObservable.notifyObservers({ agentIndex: agentIndex, destination: this._agentDestination[index] });
-        }
-      }
+  /**
+   * Moves the obstacle
+   * @param position new world position
+   * @returns false if the obstacle is removed. A change refused by a full request queue is retried by the next updateTileCache
+   */
+  public move (position: Vector3): boolean {
+    if (this.isRemoved) {
+      return false;
     }
+    this.position.copyFrom(position);
+    return this._plugin._updateObstacle(this);
   }
 
   /**
-   * Set the Bounding box extent for doing spatial queries (getClosestPoint, getRandomPointAround, ...)
-   * The queries will try to find a solution within those bounds
-   * default is (1,1,1)
-   * @param extent x,y,z value that define the extent around the queries point of reference
+   * Removes the obstacle from the navigation
    */
-  setDefaultQueryExtent (extent: Vector3): void {
-    const ext = new this.bjsRECASTPlugin.bjsRECAST.Vec3(extent.x, extent.y, extent.z);
-    this.bjsRECASTPlugin.setDefaultQueryExtent(ext);
+  public remove (): void {
+    this._plugin._removeObstacle(this);
   }
 
   /**
-   * Get the Bounding box extent specified by setDefaultQueryExtent
-   * @returns the box extent values
+   * Adds the obstacle to a tile cache
+   * @internal
    */
-  getDefaultQueryExtent (): Vector3 {
-    const p = this.bjsRECASTPlugin.getDefaultQueryExtent();
-    return new Vector3(p.x, p.y, p.z);
-  }
+  public abstract _addToTileCache (tileCache: TileCache): AddObstacleResult<Obstacle>;
+}
 
+/**
+ * Cylinder obstacle created by addCylinderObstacle
+ */
+export class RecastJSCylinderObstacle extends RecastJSObstacle {
   /**
-   * Get the Bounding box extent result specified by setDefaultQueryExtent
-   * @param result output the box extent values
+   * Constructor
+   * @param plugin recastJS plugin owning the tile cache
+   * @param position world position of the cylinder base
+   * @param radius cylinder radius
+   * @param height cylinder height
    */
-  getDefaultQueryExtentToRef (result: Vector3): void {
-    const p = this.bjsRECASTPlugin.getDefaultQueryExtent();
-    result.set(p.x, p.y, p.z);
+  public constructor(plugin: RecastNavigationJSPlugin, position: Vector3, public radius: number, public height: number) {
+    super(plugin, position);
   }
 
   /**
-   * Get the next corner points composing the path (max 4 points)
-   * @param index agent index returned by addAgent
-   * @returns array containing world position composing the path
+   * Resizes the cylinder
+   * @param radius new cylinder radius
+   * @param height new cylinder height
+   * @returns false if the obstacle is removed. A change refused by a full request queue is retried by the next updateTileCache
    */
-  getCorners (index: number): Vector3[] {
-    // const straightPath = this.bjsRECASTPlugin.findStraightPath(startPos, endPos, path, maxPathLength);
+  public resize (radius: number, height: number): boolean {
+    if (this.isRemoved) {
+      return false;
+    }
+    this.radius = radius;
+    this.height = height;
+    return this._plugin._updateObstacle(this);
+  }
 
-    // // The straightPath will contain the corners of the path
-    // for (let i = 0; i < straightPath.length; i++) {
-    //   const corner = straightPath[i];
-    //   console.log(`Corner ${i}:`, corner);
-    // }
+  /** @internal */
+  public _addToTileCache (tileCache: TileCache): AddObstacleResult<Obstacle> {
+    return tileCache.addCylinderObstacle(this.position, this.radius, this.height);
+  }
+}
 
-    // let pt: number;
-    // const navPath = this.recastCrowd.getCorners(index);
-    // const pointCount = navPath.getPointCount();
-    // const positions = [];
-    // for (pt = 0; pt < pointCount; pt++) {
-    //   const p = navPath.getPoint(pt);
-    //   positions.push(new Vector3(p.x, p.y, p.z));
-    // }
-    // return positions;
-    return []
+/**
+ * Oriented box obstacle created by addBoxObstacle
+ */
+export class RecastJSBoxObstacle extends RecastJSObstacle {
+  /**
+   * box size
+   */
+  public readonly extent: Vector3;
+
+  /**
+   * Constructor
+   * @param plugin recastJS plugin owning the tile cache
+   * @param position world position of the box center
+   * @param extent box size
+   * @param angle angle in radians of the box orientation on Y axis
+   */
+  public constructor(plugin: RecastNavigationJSPlugin, position: Vector3, extent: Vector3, public angle: number) {
+    super(plugin, position);
+    this.extent = extent.clone();
   }
 
   /**
-   * Release all resources
+   * Resizes or rotates the box
+   * @param extent new box size
+   * @param angle new angle in radians of the box orientation on Y axis. Unchanged when omitted
+   * @returns false if the obstacle is removed. A change refused by a full request queue is retried by the next updateTileCache
    */
-  dispose (): void {
-    this.recastCrowd.destroy();
-    this._scene.onBeforeAnimationsObservable.remove(this._onBeforeAnimationsObserver);
-    this._onBeforeAnimationsObserver = null;
-    this.onReachTargetObservable.clear();
+  public resize (extent: Vector3, angle: number = this.angle): boolean {
+    if (this.isRemoved) {
+      return false;
+    }
+    this.extent.copyFrom(extent);
+    this.angle = angle;
+    return this._plugin._updateObstacle(this);
+  }
+
+  /** @internal */
+  public _addToTileCache (tileCache: TileCache): AddObstacleResult<Obstacle> {
+    return tileCache.addBoxObstacle(this.position, this.extent, this.angle);
   }
 }
@@ -0,0 +1,442 @@
+import type { DetourMeshTile, DetourPoly, NavMesh, NavMeshQuery, QueryFilter, Vector3 } from "recast-navigation";
+import { Detour } from "recast-navigation";
+
+/**
+ * Polygons found by a search along the navmesh graph
+ */
+export interface IPolySearchResult {
+  success: boolean;
+  status: number;
+  polyRefs: number[];
+  parentRefs: number[];
+  costs: number[];
+}
+
+/**
+ * Nearest wall found by findDistanceToWall
+ */
+export interface IWallDistanceResult {
+  success: boolean;
+  status: number;
+  hit: boolean;
+  distance: number;
+  hitPoint: Vector3;
+  hitNormal: Vector3;
+}
+
+/**
+ * Random point picked by findRandomPointInPolys
+ */
+export interface IRandomPolyPointResult {
+  success: boolean;
+  status: number;
+  polyRef: number;
+  point: Vector3;
+}
+
+/**
+ * Polygon reached by a search, kept until the search ends
+ */
+interface ISearchNode {
+  ref: number;
+  parent: number;
+  cost: number;
+  position: Vector3;
+  closed: boolean;
+}
+
+// DT_POLYTYPE_OFFMESH_CONNECTION, not exposed by recast-navigation
+const offMeshConnectionPolyType = 1;
+
+/**
+ * Tells whether a polygon is accepted by the include and exclude flags of a query filter
+ * @param filter the query filter
+ * @param poly the polygon
+ * @returns true if the polygon passes the filter
+ */
+export const passFilter = (filter: QueryFilter, poly: DetourPoly): boolean => {
+  return (poly.flags() & filter.includeFlags) !== 0 && (poly.flags() & filter.excludeFlags) === 0;
+};
+
+const getVertex = (tile: DetourMeshTile, index: number): Vector3 => {
+  return { x: tile.verts(index * 3), y: tile.verts(index * 3 + 1), z: tile.verts(index * 3 + 2) };
+};
+
+const lerp = (a: Vector3, b: Vector3, t: number): Vector3 => {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+};
+
+const distance = (a: Vector3, b: Vector3): number => {
+  return Math.sqrt((b.x - a.x) * (b.x - a.x) + (b.y - a.y) * (b.y - a.y) + (b.z - a.z) * (b.z - a.z));
+};
+
+/**
+ * Squared 2D distance from a point to a segment, with the parameter of the closest point of the segment
+ */
+const distancePointSegmentSquared2D = (point: Vector3, a: Vector3, b: Vector3): { distanceSquared: number; t: number } => {
+  const abx = b.x - a.x;
+  const abz = b.z - a.z;
+  const d = abx * abx + abz * abz;
+  let t = d > 0 ? (abx * (point.x - a.x) + abz * (point.z - a.z)) / d : 0;
+  t = Math.min(Math.max(t, 0), 1);
+  const dx = a.x + t * abx - point.x;
+  const dz = a.z + t * abz - point.z;
+  return { distanceSquared: dx * dx + dz * dz, t };
+};
+
+/**
+ * Clips a segment against a convex polygon on the XZ plane, as dtIntersectSegmentPoly2D
+ * @returns false if the segment is outside the polygon
+ */
+const segmentIntersectsPolygon2D = (a: Vector3, b: Vector3, polygon: Vector3[]): boolean => {
+  const epsilon = 0.00000001;
+  let tmin = 0;
+  let tmax = 1;
+  const dirX = b.x - a.x;
+  const dirZ = b.z - a.z;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const edgeX = polygon[i].x - polygon[j].x;
+    const edgeZ = polygon[i].z - polygon[j].z;
+    const diffX = a.x - polygon[j].x;
+    const diffZ = a.z - polygon[j].z;
+    const n = edgeZ * diffX - edgeX * diffZ;
+    const d = dirZ * edgeX - dirX * edgeZ;
+    if (Math.abs(d) < epsilon) {
+      // parallel to the edge, outside when on the wrong side of it
+      if (n < 0) {
+        return false;
+      }
+      continue;
+    }
+    const t = n / d;
+    if (d < 0) {
+      tmin = Math.max(tmin, t);
+    } else {
+      tmax = Math.min(tmax, t);
+    }
+    if (tmin > tmax) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Gets the edge shared by two neighbour polygons, as dtNavMeshQuery::getPortalPoints.
+ * The edge of an off-mesh connection is its end point
+ * @param navMesh the navmesh
+ * @param fromRef reference of the polygon the link belongs to
+ * @param fromTile tile of the polygon
+ * @param fromPoly the polygon
+ * @param toRef reference of the neighbour polygon
+ * @param edge edge index of the link
+ * @param side tile side of the link, 0xff inside a tile
+ * @param bmin start of the link along a tile border edge, from 0 to 255
+ * @param bmax end of the link along a tile border edge, from 0 to 255
+ * @returns the edge end points
+ */
+export const getPortal = (navMesh: NavMesh, fromRef: number, fromTile: DetourMeshTile, fromPoly: DetourPoly, toRef: number, edge: number, side: number, bmin: number, bmax: number): { left: Vector3; right: Vector3 } => {
+  if (fromPoly.getType() === offMeshConnectionPolyType) {
+    const vertex = getVertex(fromTile, fromPoly.verts(edge));
+    return { left: vertex, right: vertex };
+  }
+
+  const to = navMesh.getTileAndPolyByRef(toRef);
+  if (to.poly.getType() === offMeshConnectionPolyType) {
+    // the end point of the connection attached to this polygon
+    for (let i = to.poly.firstLink(); i !== Detour.DT_NULL_LINK; i = to.tile.links(i).next()) {
+      const link = to.tile.links(i);
+      if (link.ref() === fromRef) {
+        const vertex = getVertex(to.tile, to.poly.verts(link.edge()));
+        return { left: vertex, right: vertex };
+      }
+    }
+  }
+
+  const left = getVertex(fromTile, fromPoly.verts(edge));
+  const right = getVertex(fromTile, fromPoly.verts((edge + 1) % fromPoly.vertCount()));
+  // a tile border link only covers part of the edge
+  if (side !== 0xff && (bmin !== 0 || bmax !== 255)) {
+    return { left: lerp(left, right, bmin / 255), right: lerp(left, right, bmax / 255) };
+  }
+  return { left, right };
+};
+
+/**
+ * Dijkstra search along the navmesh graph, shared by findPolysAroundShape and findDistanceToWall
+ * @param navMesh the navmesh
+ * @param startRef polygon the search starts from
+ * @param start position the search starts from
+ * @param visit called with each polygon in cost order
+ * @param accept tells whether a neighbour polygon, reached through the given portal, is searched
+ * @param areaCost cost multiplier of the polygon areas, 1 when not provided
+ */
+const searchPolys = (
+  navMesh: NavMesh,
+  startRef: number,
+  start: Vector3,
+  visit: (node: ISearchNode, tile: DetourMeshTile, poly: DetourPoly) => void,
+  accept: (poly: DetourPoly, left: Vector3, right: Vector3) => boolean,
+  areaCost?: (poly: DetourPoly) => number
+): void => {
+  const nodes = new Map<number, ISearchNode>();
+  const open: ISearchNode[] = [{ ref: startRef, parent: 0, cost: 0, position: start, closed: false }];
+  nodes.set(startRef, open[0]);
+
+  while (open.length > 0) {
+    let bestIndex = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].cost < open[bestIndex].cost) {
+        bestIndex = i;
+      }
+    }
+    const best = open[bestIndex];
+    open.splice(bestIndex, 1);
+    best.closed = true;
+
+    const { tile, poly } = navMesh.getTileAndPolyByRef(best.ref);
+    visit(best, tile, poly);
+
+    for (let i = poly.firstLink(); i !== Detour.DT_NULL_LINK; i = tile.links(i).next()) {
+      const link = tile.links(i);
+      const neighbourRef = link.ref();
+      if (neighbourRef === 0 || neighbourRef === best.parent) {
+        continue;
+      }
+      const neighbour = nodes.get(neighbourRef);
+      if (neighbour?.closed) {
+        continue;
+      }
+
+      const neighbourPoly = navMesh.getTileAndPolyByRef(neighbourRef).poly;
+      const { left, right } = getPortal(navMesh, best.ref, tile, poly, neighbourRef, link.edge(), link.side(), link.bmin(), link.bmax());
+      if (!accept(neighbourPoly, left, right)) {
+        continue;
+      }
+
+      const position = lerp(left, right, 0.5);
+      const cost = best.cost + distance(best.position, position) * (areaCost ? areaCost(poly) : 1);
+      if (!neighbour) {
+        const node = { ref: neighbourRef, parent: best.ref, cost, position, closed: false };
+        nodes.set(neighbourRef, node);
+        open.push(node);
+      } else if (cost < neighbour.cost) {
+        neighbour.parent = best.ref;
+        neighbour.cost = cost;
+        neighbour.position = position;
+      }
+    }
+  }
+};
+
+/**
+ * Finds the polygons along the navigation graph that touch a convex shape, as dtNavMeshQuery::findPolysAroundShape.
+ * The search starts at the shape center, the costs are the travel costs from there
+ * @param navMesh the navmesh
+ * @param startRef polygon under the shape center
+ * @param shape convex shape vertices, on the XZ plane
+ * @param filter polygon filter and area costs
+ * @param maxPolys maximum number of polygons returned
+ * @returns the polygons, their parent in the search and their cost
+ */
+export const findPolysAroundShape = (navMesh: NavMesh, startRef: number, shape: Vector3[], filter: QueryFilter, maxPolys: number = 256): IPolySearchResult => {
+  const result: IPolySearchResult = { success: false, status: Detour.DT_FAILURE | Detour.DT_INVALID_PARAM, polyRefs: [], parentRefs: [], costs: [] };
+  if (shape.length < 3 || !navMesh.isValidPolyRef(startRef)) {
+    return result;
+  }
+
+  // the clipping expects the Recast winding, clockwise seen from above
+  let signedArea = 0;
+  for (let i = 0, j = shape.length - 1; i < shape.length; j = i++) {
+    signedArea += shape[j].x * shape[i].z - shape[i].x * shape[j].z;
+  }
+  if (signedArea > 0) {
+    shape = shape.slice().reverse();
+  }
+
+  const center = shape.reduce((sum, vertex) => ({ x: sum.x + vertex.x / shape.length, y: sum.y + vertex.y / shape.length, z: sum.z + vertex.z / shape.length }), { x: 0, y: 0, z: 0 });
+  result.status = Detour.DT_SUCCESS;
+  searchPolys(
+    navMesh,
+    startRef,
+    center,
+    (node) => {
+      if (result.polyRefs.length < maxPolys) {
+        result.polyRefs.push(node.ref);
+        result.parentRefs.push(node.parent);
+        result.costs.push(node.cost);
+      } else {
+        result.status |= Detour.DT_BUFFER_TOO_SMALL;
+      }
+    },
+    (poly, left, right) => passFilter(filter, poly) && segmentIntersectsPolygon2D(left, right, shape),
+    (poly) => filter.getAreaCost(poly.areaAndType() & 0x3f)
+  );
+  result.success = true;
+  return result;
+};
+
+/**
+ * Finds the nearest wall around a position, as dtNavMeshQuery::findDistanceToWall.
+ * Edges leading to a polygon rejected by the filter are walls
+ * @param navMesh the navmesh
+ * @param startRef polygon under the position
+ * @param center position
+ * @param maxRadius search radius
+ * @param filter polygon filter
+ * @returns the distance to the nearest wall, the closest point on it and the wall normal
+ */
+export const findDistanceToWall = (navMesh: NavMesh, startRef: number, center: Vector3, maxRadius: number, filter: QueryFilter): IWallDistanceResult => {
+  const result: IWallDistanceResult = {
+    success: false,
+    status: Detour.DT_FAILURE | Detour.DT_INVALID_PARAM,
+    hit: false,
+    distance: maxRadius,
+    hitPoint: { x: 0, y: 0, z: 0 },
+    hitNormal: { x: 0, y: 0, z: 0 },
+  };
+  if (maxRadius < 0 || !navMesh.isValidPolyRef(startRef)) {
+    return result;
+  }
+
+  let radiusSquared = maxRadius * maxRadius;
+  searchPolys(
+    navMesh,
+    startRef,
+    center,
+    (node, tile, poly) => {
+      for (let edge = 0; edge < poly.vertCount(); edge++) {
+        const neighbour = poly.neis(edge);
+        if (neighbour & Detour.DT_EXT_LINK) {
+          // an edge on the tile border is a wall unless linked to a neighbour tile polygon the filter accepts
+          let solid = true;
+          for (let i = poly.firstLink(); i !== Detour.DT_NULL_LINK; i = tile.links(i).next()) {
+            const link = tile.links(i);
+            if (link.edge() === edge) {
+              solid = link.ref() === 0 || !passFilter(filter, navMesh.getTileAndPolyByRef(link.ref()).poly);
+              break;
+            }
+          }
+          if (!solid) {
+            continue;
+          }
+        } else if (neighbour !== 0 && passFilter(filter, tile.polys(neighbour - 1))) {
+          continue;
+        }
+
+        const a = getVertex(tile, poly.verts(edge));
+        const b = getVertex(tile, poly.verts((edge + 1) % poly.vertCount()));
+        const { distanceSquared, t } = distancePointSegmentSquared2D(center, a, b);
+        if (distanceSquared <= radiusSquared) {
+          radiusSquared = distanceSquared;
+          result.hit = true;
+          result.hitPoint = lerp(a, b, t);
+        }
+      }
+    },
+    (poly, left, right) => {
+      return poly.getType() !== offMeshConnectionPolyType && distancePointSegmentSquared2D(center, left, right).distanceSquared <= radiusSquared && passFilter(filter, poly);
+    }
+  );
+
+  result.success = true;
+  result.status = Detour.DT_SUCCESS;
+  result.distance = Math.sqrt(radiusSquared);
+  if (result.hit) {
+    const x = center.x - result.hitPoint.x;
+    const z = center.z - result.hitPoint.z;
+    const length = Math.sqrt(x * x + z * z);
+    result.hitNormal = length > 0 ? { x: x / length, y: 0, z: z / length } : { x: 0, y: 0, z: 0 };
+  }
+  return result;
+};
+
+const triangleArea2D = (a: Vector3, b: Vector3, c: Vector3): number => {
+  return Math.abs((c.x - a.x) * (b.z - a.z) - (b.x - a.x) * (c.z - a.z)) * 0.5;
+};
+
+const polygonArea2D = (vertices: Vector3[]): number => {
+  let area = 0;
+  for (let i = 2; i < vertices.length; i++) {
+    area += triangleArea2D(vertices[0], vertices[i - 1], vertices[i]);
+  }
+  return area;
+};
+
+/**
+ * Picks a triangle of the polygon fan by area, then a uniform point in it, as dtRandomPointInConvexPoly
+ */
+const randomPointInConvexPolygon = (vertices: Vector3[], random: () => number): Vector3 => {
+  const target = random() * polygonArea2D(vertices);
+  let triangle = vertices.length - 1;
+  let sum = 0;
+  for (let i = 2; i < vertices.length; i++) {
+    sum += triangleArea2D(vertices[0], vertices[i - 1], vertices[i]);
+    if (target <= sum) {
+      triangle = i;
+      break;
+    }
+  }
+
+  const s = random();
+  const t = random();
+  const v = Math.sqrt(t);
+  const a = 1 - v;
+  const b = (1 - s) * v;
+  const c = s * v;
+  const p0 = vertices[0];
+  const p1 = vertices[triangle - 1];
+  const p2 = vertices[triangle];
+  return { x: a * p0.x + b * p1.x + c * p2.x, y: a * p0.y + b * p1.y + c * p2.y, z: a * p0.z + b * p1.z + c * p2.z };
+};
+
+/**
+ * Picks a random point in a set of polygons, each polygon weighted by its area
+ * @param navMesh the navmesh
+ * @param navMeshQuery query used to get the point height
+ * @param polyRefs polygons to pick from
+ * @param filter polygon filter, rejected polygons are ignored
+ * @param random random number generator returning values in [0, 1)
+ * @returns the polygon and the point
+ */
+export const findRandomPointInPolys = (navMesh: NavMesh, navMeshQuery: NavMeshQuery, polyRefs: number[], filter: QueryFilter, random: () => number): IRandomPolyPointResult => {
+  const result: IRandomPolyPointResult = { success: false, status: Detour.DT_FAILURE, polyRef: 0, point: { x: 0, y: 0, z: 0 } };
+  let chosen: Vector3[] = [];
+  let areaSum = 0;
+
+  for (const polyRef of polyRefs) {
+    const { success, tile, poly } = navMesh.getTileAndPolyByRef(polyRef);
+    if (!success) {
+      result.status = Detour.DT_FAILURE | Detour.DT_INVALID_PARAM;
+      return result;
+    }
+    if (poly.getType() === offMeshConnectionPolyType || !passFilter(filter, poly)) {
+      continue;
+    }
+
+    const vertices: Vector3[] = [];
+    for (let i = 0; i < poly.vertCount(); i++) {
+      vertices.push(getVertex(tile, poly.verts(i)));
+    }
+    const area = polygonArea2D(vertices);
+    // reservoir sampling keeps each polygon with a probability proportional to its area
+    areaSum += area;
+    if (area > 0 && random() * areaSum <= area) {
+      chosen = vertices;
+      result.polyRef = polyRef;
+    }
+  }
+  if (chosen.length === 0) {
+    return result;
+  }
+
+  const point = randomPointInConvexPolygon(chosen, random);
+  const height = navMeshQuery.getPolyHeight(result.polyRef, point);
+  if (height.success) {
+    point.y = height.height;
+  }
+  result.success = true;
+  result.status = Detour.DT_SUCCESS;
+  result.point = point;
+  return result;
+};
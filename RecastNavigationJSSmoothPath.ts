@@ -0,0 +1,211 @@
+import type { NavMesh, NavMeshQuery, QueryFilter, Vector3 } from "recast-navigation";
+import { Detour } from "recast-navigation";
+
+/**
+ * Options of a smooth path query
+ */
+export interface ISmoothPathOptions {
+  /**
+   * distance moved along the surface at each step. Default is 0.5
+   */
+  stepSize?: number;
+  /**
+   * distance under which a corner or an off-mesh connection is considered reached, greater than 0. Default is 0.01
+   */
+  slop?: number;
+  /**
+   * maximum number of points of the path. Default is 2048
+   */
+  maxPoints?: number;
+  /**
+   * maximum number of polygons of the corridor. Default is 256
+   */
+  maxPathPolys?: number;
+  /**
+   * query filter of the path. The default filter of the query is used when not provided
+   */
+  filter?: QueryFilter;
+}
+
+/**
+ * Next corner to steer toward
+ */
+interface ISteerTarget {
+  position: Vector3;
+  flags: number;
+  polyRef: number;
+}
+
+const maxSteerPoints = 3;
+
+const inRange = (a: Vector3, b: Vector3, radius: number, height: number): boolean => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dz = b.z - a.z;
+  return dx * dx + dz * dz < radius * radius && Math.abs(dy) < height;
+};
+
+/**
+ * Replaces the start of the corridor by the polygons visited by moveAlongSurface
+ * @param path polygon corridor
+ * @param visited polygons visited by the last move, from the start polygon
+ * @param maxPathPolys maximum number of polygons of the corridor
+ * @returns the new corridor
+ */
+const fixupCorridor = (path: number[], visited: number[], maxPathPolys: number): number[] => {
+  let furthestPath = -1;
+  let furthestVisited = -1;
+
+  // find the furthest common polygon
+  for (let i = visited.length - 1; i >= 0 && furthestPath === -1; i--) {
+    for (let j = path.length - 1; j >= 0; j--) {
+      if (path[j] === visited[i]) {
+        furthestPath = j;
+        furthestVisited = i;
+        break;
+      }
+    }
+  }
+
+  if (furthestPath === -1) {
+    return path;
+  }
+
+  // the visited polygons lead to the common one, the rest of the corridor follows it
+  const fixed = visited.slice(furthestVisited).reverse();
+  return fixed.concat(path.slice(furthestPath + 1)).slice(0, maxPathPolys);
+};
+
+/**
+ * Finds the first corner of the corridor far enough from the start, or the next off-mesh connection
+ * @param navMeshQuery query used to string pull the corridor
+ * @param start current position
+ * @param end end of the path
+ * @param slop distance under which a corner is considered reached
+ * @param path polygon corridor
+ * @returns the corner, null if there is none
+ */
+const getSteerTarget = (navMeshQuery: NavMeshQuery, start: Vector3, end: Vector3, slop: number, path: number[]): ISteerTarget | null => {
+  const { success, straightPath, straightPathFlags, straightPathRefs, straightPathCount } = navMeshQuery.findStraightPath(start, end, path, {
+    maxStraightPathPoints: maxSteerPoints,
+  });
+
+  try {
+    if (!success) {
+      return null;
+    }
+
+    for (let i = 0; i < straightPathCount; i++) {
+      const position = { x: straightPath.get(i * 3), y: straightPath.get(i * 3 + 1), z: straightPath.get(i * 3 + 2) };
+      const flags = straightPathFlags.get(i);
+      // stop at an off-mesh connection or at the first corner that is not reached yet
+      if (flags & Detour.DT_STRAIGHTPATH_OFFMESH_CONNECTION || !inRange(position, start, slop, 1000)) {
+        return { position, flags, polyRef: straightPathRefs.get(i) };
+      }
+    }
+    return null;
+  } finally {
+    straightPath.destroy();
+    straightPathFlags.destroy();
+    straightPathRefs.destroy();
+  }
+};
+
+/**
+ * Computes a path following the navmesh surface, like the Detour sample smooth path.
+ * The polygon corridor is walked with moveAlongSurface steps and each point is snapped to the detail mesh height.
+ * Off-mesh connections are crossed from their start to their end point
+ * @param navMesh the navmesh
+ * @param navMeshQuery query of the navmesh
+ * @param start world position
+ * @param end world position
+ * @param options step size, slop and limits
+ * @returns the path points, empty if no path can be computed
+ */
+export const computeSmoothPath = (navMesh: NavMesh, navMeshQuery: NavMeshQuery, start: Vector3, end: Vector3, options: ISmoothPathOptions = {}): Vector3[] => {
+  const { stepSize = 0.5, slop = 0.01, maxPoints = 2048, maxPathPolys = 256, filter } = options;
+  // a corner is never reached with a slop of 0, and the next step toward it has no length
+  if (!(stepSize > 0) || !(slop > 0) || !(maxPoints >= 1) || !(maxPathPolys >= 1)) {
+    throw new Error("Invalid smooth path options: stepSize and slop must be greater than 0, maxPoints and maxPathPolys must be at least 1.");
+  }
+
+  const startPoly = navMeshQuery.findNearestPoly(start, { filter });
+  const endPoly = navMeshQuery.findNearestPoly(end, { filter });
+  if (!startPoly.success || !endPoly.success || !startPoly.nearestRef || !endPoly.nearestRef) {
+    return [];
+  }
+
+  const pathResult = navMeshQuery.findPath(startPoly.nearestRef, endPoly.nearestRef, startPoly.nearestPoint, endPoly.nearestPoint, { filter, maxPathPolys });
+  let polys = Array.from(pathResult.polys.toTypedArray());
+  pathResult.polys.destroy();
+  if (!pathResult.success || polys.length === 0) {
+    return [];
+  }
+
+  // a partial path ends on the polygon closest to the end
+  let iterPos: Vector3 = navMeshQuery.closestPointOnPoly(startPoly.nearestRef, start).closestPoint;
+  const targetPos: Vector3 = navMeshQuery.closestPointOnPoly(polys[polys.length - 1], end).closestPoint;
+
+  const smoothPath: Vector3[] = [iterPos];
+
+  while (polys.length > 0 && smoothPath.length < maxPoints) {
+    const steerTarget = getSteerTarget(navMeshQuery, iterPos, targetPos, slop, polys);
+    if (!steerTarget) {
+      break;
+    }
+
+    const endOfPath = (steerTarget.flags & Detour.DT_STRAIGHTPATH_END) !== 0;
+    const offMeshConnection = (steerTarget.flags & Detour.DT_STRAIGHTPATH_OFFMESH_CONNECTION) !== 0;
+
+    // move toward the steer target, stopping on it when it is the last step
+    const dx = steerTarget.position.x - iterPos.x;
+    const dy = steerTarget.position.y - iterPos.y;
+    const dz = steerTarget.position.z - iterPos.z;
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const scale = (endOfPath || offMeshConnection) && length < stepSize ? 1 : stepSize / length;
+    const moveTarget = { x: iterPos.x + dx * scale, y: iterPos.y + dy * scale, z: iterPos.z + dz * scale };
+
+    const { resultPosition, visited } = navMeshQuery.moveAlongSurface(polys[0], iterPos, moveTarget, { filter });
+    polys = fixupCorridor(polys, visited, maxPathPolys);
+
+    const { success, height } = navMeshQuery.getPolyHeight(polys[0], resultPosition);
+    iterPos = { x: resultPosition.x, y: success ? height : resultPosition.y, z: resultPosition.z };
+
+    if (endOfPath && inRange(iterPos, steerTarget.position, slop, 1)) {
+      // reached the end of the path
+      smoothPath.push(targetPos);
+      break;
+    } else if (offMeshConnection && inRange(iterPos, steerTarget.position, slop, 1)) {
+      // reached the off-mesh connection, skip the polygons up to it
+      let prevRef = 0;
+      let polyRef = polys[0];
+      let npos = 0;
+      while (npos < polys.length && polyRef !== steerTarget.polyRef) {
+        prevRef = polyRef;
+        polyRef = polys[npos];
+        npos++;
+      }
+      polys = polys.slice(npos);
+
+      const connection = navMesh.getOffMeshConnectionPolyEndPoints(prevRef, polyRef);
+      if (connection.success) {
+        smoothPath.push(connection.start);
+        if (smoothPath.length >= maxPoints) {
+          break;
+        }
+        // continue from the end of the connection
+        iterPos = connection.end;
+        if (polys.length > 0) {
+          const endHeight = navMeshQuery.getPolyHeight(polys[0], iterPos);
+          if (endHeight.success) {
+            iterPos = { x: iterPos.x, y: endHeight.height, z: iterPos.z };
+          }
+        }
+      }
+    }
+
+    smoothPath.push(iterPos);
+  }
+
+  return smoothPath;
+};
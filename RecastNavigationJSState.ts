@@ -0,0 +1,100 @@
+/**
+ * Version of the navigation state format written by RecastNavigationJSPlugin.saveState.
+ * Bumped each time the format changes so an older or newer file is reported instead of misread
+ */
+export const NavigationStateVersion = 1;
+
+const navigationStateMagic = "BNAV";
+// magic, version, checksum and description length
+const navigationStateHeaderSize = 16;
+
+/**
+ * FNV-1a hash of the bytes following the checksum
+ */
+const computeChecksum = (data: Uint8Array, start: number): number => {
+  let hash = 0x811c9dc5;
+  for (let i = start; i < data.length; i++) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Writes a navigation state container: a JSON description followed by binary chunks, protected by a checksum.
+ * Layout is the "BNAV" magic, the format version, the checksum and the description length as uint32 little endian,
+ * then the description, the chunk count and each chunk preceded by its length
+ * @param description JSON serializable description of the state
+ * @param chunks binary data referenced by index from the description
+ * @returns the container
+ */
+export const writeNavigationState = (description: unknown, chunks: Uint8Array[]): Uint8Array => {
+  const json = new TextEncoder().encode(JSON.stringify(description));
+  const size = navigationStateHeaderSize + json.length + 4 + chunks.reduce((total, chunk) => total + 4 + chunk.length, 0);
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+
+  for (let i = 0; i < navigationStateMagic.length; i++) {
+    data[i] = navigationStateMagic.charCodeAt(i);
+  }
+  view.setUint32(4, NavigationStateVersion, true);
+  view.setUint32(12, json.length, true);
+  data.set(json, navigationStateHeaderSize);
+
+  let offset = navigationStateHeaderSize + json.length;
+  view.setUint32(offset, chunks.length, true);
+  offset += 4;
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.length, true);
+    data.set(chunk, offset + 4);
+    offset += 4 + chunk.length;
+  }
+
+  view.setUint32(8, computeChecksum(data, 12), true);
+  return data;
+};
+
+/**
+ * Reads a container written by writeNavigationState
+ * @param data the container
+ * @returns the JSON description and the binary chunks
+ */
+export const readNavigationState = (data: Uint8Array): { description: unknown; chunks: Uint8Array[] } => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const magic = String.fromCharCode(...data.subarray(0, navigationStateMagic.length));
+  if (data.length < navigationStateHeaderSize || magic !== navigationStateMagic) {
+    throw new Error("Invalid navigation state: the data was not written by saveState.");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== NavigationStateVersion) {
+    throw new Error(`Unsupported navigation state version ${version}, this plugin reads version ${NavigationStateVersion}.`);
+  }
+  if (view.getUint32(8, true) !== computeChecksum(data, 12)) {
+    throw new Error("Invalid navigation state: the data is corrupt or truncated.");
+  }
+
+  const truncated = () => new Error("Invalid navigation state: the data is truncated.");
+  const jsonLength = view.getUint32(12, true);
+  let offset = navigationStateHeaderSize + jsonLength;
+  if (offset + 4 > data.length) {
+    throw truncated();
+  }
+  const description = JSON.parse(new TextDecoder().decode(data.subarray(navigationStateHeaderSize, offset)));
+
+  const chunkCount = view.getUint32(offset, true);
+  offset += 4;
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    if (offset + 4 > data.length) {
+      throw truncated();
+    }
+    const length = view.getUint32(offset, true);
+    if (offset + 4 + length > data.length) {
+      throw truncated();
+    }
+    // copied so the chunks outlive the container
+    chunks.push(data.slice(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+  }
+  return { description, chunks };
+};
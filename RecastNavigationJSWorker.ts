@@ -0,0 +1,126 @@
+import { exportNavMesh, init } from "recast-navigation";
+import type {
+  INavMeshBuildOutput, INavMeshBuildReport, INavMeshWorkerBuildRequest, NavMeshWorkerBuildStage, NavMeshWorkerRequest, NavMeshWorkerResponse
+} from "./RecastNavigationJSWorkerProtocol";
+import { NavMeshWorkerProtocolVersion } from "./RecastNavigationJSWorkerProtocol";
+import { createTileCacheMeshProcess, exportTileCacheData, getNavMeshBuildOutput, NavMeshBuildError, NavMeshBuilder } from "./RecastNavigationJSNavMeshBuilder";
+
+/**
+ * Navmesh worker entry module used by RecastNavigationJSPlugin.
+ * Create it with `new Worker(new URL("./RecastNavigationJSWorker", import.meta.url), { type: "module" })` and pass it to `setWorker`
+ */
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<NavMeshWorkerRequest>) => void) | null;
+  postMessage (message: NavMeshWorkerResponse, transfer?: Transferable[]): void;
+};
+
+const queue: INavMeshWorkerBuildRequest[] = [];
+let recastReady: Promise<void> | null = null;
+let processing = false;
+
+const postProgress = (id: number, stage: NavMeshWorkerBuildStage, progress: number) => {
+  workerScope.postMessage({ version: NavMeshWorkerProtocolVersion, type: "progress", id, stage, progress });
+};
+
+const postError = (id: number, error: unknown) => {
+  if (error instanceof NavMeshBuildError) {
+    const { message, code, stage, logs } = error;
+    workerScope.postMessage({ version: NavMeshWorkerProtocolVersion, type: "error", id, message, code, stage, logs });
+  } else {
+    const message = error instanceof Error ? error.message : String(error);
+    workerScope.postMessage({ version: NavMeshWorkerProtocolVersion, type: "error", id, message, code: "workerFailure", stage: "worker", logs: [] });
+  }
+};
+
+const build = async (request: INavMeshWorkerBuildRequest) => {
+  postProgress(request.id, "initializing", 0);
+  if (!recastReady) {
+    recastReady = init();
+  }
+  await recastReady;
+
+  postProgress(request.id, "generating", 0.1);
+  const builder = new NavMeshBuilder(request.positions, request.indices, request.config, null, {
+    triangleAreas: request.triangleAreas,
+    areaFlags: request.areaFlags,
+  });
+  let navMeshData: Uint8Array;
+  let output: INavMeshBuildOutput;
+  const profiles: Array<{ name: string; navMeshData: Uint8Array }> = [];
+  const profileOutputs: Array<{ name: string; navMesh: INavMeshBuildOutput }> = [];
+  let report: INavMeshBuildReport;
+  try {
+    if (request.mode === "tileCache") {
+      const offMeshConnections = request.config.offMeshConnections ?? [];
+      const { navMesh, tileCache } = builder.createTileCache(createTileCacheMeshProcess(request.areaFlags, offMeshConnections));
+      output = getNavMeshBuildOutput(navMesh);
+      postProgress(request.id, "serializing", 0.9);
+      navMeshData = exportTileCacheData(navMesh, tileCache, offMeshConnections);
+      tileCache.destroy();
+      navMesh.destroy();
+    } else {
+      const navMesh = request.mode === "tiled" ? builder.createTiledNavMesh() : builder.createSoloNavMesh();
+      output = getNavMeshBuildOutput(navMesh);
+      postProgress(request.id, "serializing", 0.9);
+      navMeshData = exportNavMesh(navMesh);
+      navMesh.destroy();
+
+      // the profiles reuse the geometry already copied to the builder
+      for (const profile of request.profiles) {
+        builder.setConfig(profile.config);
+        const profileNavMesh = request.mode === "tiled" ? builder.createTiledNavMesh() : builder.createSoloNavMesh();
+        profiles.push({ name: profile.name, navMeshData: exportNavMesh(profileNavMesh) });
+        profileOutputs.push({ name: profile.name, navMesh: getNavMeshBuildOutput(profileNavMesh) });
+        profileNavMesh.destroy();
+      }
+    }
+    report = builder.createReport(request.mode, output, profileOutputs);
+  } finally {
+    builder.destroy();
+  }
+
+  const transfer = [navMeshData.buffer, ...profiles.map((profile) => profile.navMeshData.buffer)];
+  workerScope.postMessage({ version: NavMeshWorkerProtocolVersion, type: "result", id: request.id, navMeshData, profiles, report }, transfer);
+};
+
+const processQueue = async () => {
+  if (processing) {
+    return;
+  }
+  processing = true;
+  // yield between builds so cancel messages sent meanwhile are received before the next build starts
+  while (queue.length > 0) {
+    const request = queue.shift()!;
+    try {
+      await build(request);
+    } catch (e) {
+      postError(request.id, e);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  processing = false;
+};
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+  if (request.version !== NavMeshWorkerProtocolVersion) {
+    postError(request.id, new Error(`Navmesh worker protocol mismatch. Worker version is ${NavMeshWorkerProtocolVersion}, plugin version is ${request.version}.`));
+    return;
+  }
+
+  switch (request.type) {
+    case "build":
+      queue.push(request);
+      postProgress(request.id, "queued", 0);
+      setTimeout(processQueue, 0);
+      break;
+    case "cancel": {
+      const item = queue.findIndex((queued) => queued.id === request.id);
+      if (item > -1) {
+        queue.splice(item, 1);
+      }
+      break;
+    }
+  }
+};
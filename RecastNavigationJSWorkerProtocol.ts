@@ -0,0 +1,323 @@
+import type { OffMeshConnectionParams, RecastConfig, Vector3Tuple } from "recast-navigation";
+
+/**
+ * Version of the messages exchanged between RecastNavigationJSPlugin and its navmesh worker.
+ * Bumped each time a message shape changes so a stale worker script is reported instead of misread
+ */
+export const NavMeshWorkerProtocolVersion = 7;
+
+/**
+ * How a navmesh is built.
+ * "solo" builds a single tile, "tiled" builds tiles that can be rebuilt individually, "tileCache" builds a tile cache that supports obstacles
+ */
+export type NavMeshBuildMode = "solo" | "tiled" | "tileCache";
+
+/**
+ * Convex volume giving an area id to the walkable surface it contains, see rcMarkConvexPolyArea
+ */
+export interface INavMeshConvexVolumeParams {
+  /**
+   * flat array of the world positions of the corners of a convex polygon on the XZ plane
+   */
+  vertices: number[];
+  /**
+   * world height of the bottom of the volume
+   */
+  hmin: number;
+  /**
+   * world height of the top of the volume
+   */
+  hmax: number;
+  /**
+   * area id of the walkable surface inside the volume, between 0 and 62
+   */
+  area: number;
+}
+
+/**
+ * Recast config of a navmesh build, with the tile cache settings
+ */
+export type NavMeshBuildConfig = Partial<RecastConfig> & {
+  /**
+   * maximum number of obstacles of a tile cache
+   */
+  maxObstacles?: number;
+  /**
+   * number of layers, or floors, expected in each tile of a tile cache
+   */
+  expectedLayersPerTile?: number;
+  /**
+   * off-mesh connections added to the navmesh, with their area id and polygon flags
+   */
+  offMeshConnections?: OffMeshConnectionParams[];
+  /**
+   * convex volumes marking areas of the walkable surface, applied in order so the last volume wins where they overlap
+   */
+  convexVolumes?: INavMeshConvexVolumeParams[];
+};
+
+/**
+ * Timed stages of a navmesh build.
+ * "rasterize" voxelizes and filters the triangles, "compact" builds and erodes the compact heightfield and marks the convex volumes,
+ * "regions" builds the distance field and the regions, "contours", "polyMesh" and "detail" build the polygons,
+ * "navMesh" creates the Detour tiles and adds them to the navmesh, "layers" builds and compresses the tile cache layers
+ */
+export type NavMeshBuildStage = "rasterize" | "compact" | "regions" | "contours" | "polyMesh" | "detail" | "navMesh" | "layers";
+
+/**
+ * Stage of a failed navmesh build. "input" is the geometry and parameter check done before building, "worker" a failure of the worker itself
+ */
+export type NavMeshBuildErrorStage = NavMeshBuildStage | "input" | "worker";
+
+/**
+ * Kind of navmesh build failure
+ */
+export type NavMeshBuildErrorCode = "invalidInput" | "emptyGeometry" | "noWalkableArea" | "recastFailure" | "detourFailure" | "workerFailure";
+
+/**
+ * Message logged by Recast during a navmesh build
+ */
+export interface INavMeshBuildLogMessage {
+  /**
+   * severity of the message
+   */
+  level: "progress" | "warning" | "error";
+  /**
+   * the message
+   */
+  message: string;
+}
+
+/**
+ * Navmesh produced by a build
+ */
+export interface INavMeshBuildOutput {
+  /**
+   * number of polygons, off-mesh connections excluded
+   */
+  polygonCount: number;
+  /**
+   * number of polygon vertices, off-mesh connection ends excluded
+   */
+  vertexCount: number;
+  /**
+   * number of tiles holding polygons
+   */
+  tileCount: number;
+  /**
+   * world space bounds of the tiles, null when the navmesh has no tile
+   */
+  bounds: [min: Vector3Tuple, max: Vector3Tuple] | null;
+  /**
+   * size of the navmesh tile data in bytes. The compressed layers of a tile cache are not included
+   */
+  memorySize: number;
+}
+
+/**
+ * Report of a successful navmesh build
+ */
+export interface INavMeshBuildReport {
+  /**
+   * how the navmesh was built
+   */
+  mode: NavMeshBuildMode;
+  /**
+   * number of vertices of the input geometry
+   */
+  inputVertexCount: number;
+  /**
+   * number of triangles of the input geometry
+   */
+  inputTriangleCount: number;
+  /**
+   * time spent in each stage in milliseconds, summed over the tiles and the profiles
+   */
+  timings: Record<NavMeshBuildStage, number>;
+  /**
+   * time spent building in milliseconds, from the copy of the geometry to the last navmesh.
+   * Worker builds do not include the transfer of the messages
+   */
+  totalTime: number;
+  /**
+   * the navmesh built from the navmesh parameters
+   */
+  navMesh: INavMeshBuildOutput;
+  /**
+   * the navmesh of each profile
+   */
+  profiles: Array<{ name: string; navMesh: INavMeshBuildOutput }>;
+  /**
+   * messages logged by Recast, warnings about tiles that could not be added included
+   */
+  logs: INavMeshBuildLogMessage[];
+}
+
+/**
+ * Stages reported by the navmesh worker while building
+ */
+export type NavMeshWorkerBuildStage = "queued" | "initializing" | "generating" | "serializing";
+
+/**
+ * Asks the worker to build a navmesh from a world space triangle soup
+ */
+export interface INavMeshWorkerBuildRequest {
+  /**
+   * protocol version of the sender
+   */
+  version: number;
+  /**
+   * message type
+   */
+  type: "build";
+  /**
+   * id used to match the responses with this request
+   */
+  id: number;
+  /**
+   * flat array of world space positions
+   */
+  positions: Float32Array;
+  /**
+   * flat array of triangle indices
+   */
+  indices: Uint32Array;
+  /**
+   * area id of each triangle
+   */
+  triangleAreas: Uint8Array;
+  /**
+   * polygon flags of each area id
+   */
+  areaFlags: number[];
+  /**
+   * how the navmesh is built
+   */
+  mode: NavMeshBuildMode;
+  /**
+   * recast config used to generate the navmesh
+   */
+  config: NavMeshBuildConfig;
+  /**
+   * additional navmeshes generated from the same geometry, with their own recast config
+   */
+  profiles: Array<{ name: string; config: NavMeshBuildConfig }>;
+}
+
+/**
+ * Asks the worker to drop a queued build request. A build that already started runs to completion and its result is ignored by the plugin
+ */
+export interface INavMeshWorkerCancelRequest {
+  /**
+   * protocol version of the sender
+   */
+  version: number;
+  /**
+   * message type
+   */
+  type: "cancel";
+  /**
+   * id of the build request to cancel
+   */
+  id: number;
+}
+
+/**
+ * Messages sent by the plugin to the worker
+ */
+export type NavMeshWorkerRequest = INavMeshWorkerBuildRequest | INavMeshWorkerCancelRequest;
+
+/**
+ * Progress of a build request
+ */
+export interface INavMeshWorkerProgressResponse {
+  /**
+   * protocol version of the sender
+   */
+  version: number;
+  /**
+   * message type
+   */
+  type: "progress";
+  /**
+   * id of the build request
+   */
+  id: number;
+  /**
+   * current build stage
+   */
+  stage: NavMeshWorkerBuildStage;
+  /**
+   * overall progress between 0 and 1
+   */
+  progress: number;
+}
+
+/**
+ * Successful build result
+ */
+export interface INavMeshWorkerResultResponse {
+  /**
+   * protocol version of the sender
+   */
+  version: number;
+  /**
+   * message type
+   */
+  type: "result";
+  /**
+   * id of the build request
+   */
+  id: number;
+  /**
+   * the navmesh data, or the tile cache data in tileCache mode, as returned by getNavmeshData
+   */
+  navMeshData: Uint8Array;
+  /**
+   * the navmesh data of each profile of the build request
+   */
+  profiles: Array<{ name: string; navMeshData: Uint8Array }>;
+  /**
+   * report of the build
+   */
+  report: INavMeshBuildReport;
+}
+
+/**
+ * Failed build request
+ */
+export interface INavMeshWorkerErrorResponse {
+  /**
+   * protocol version of the sender
+   */
+  version: number;
+  /**
+   * message type
+   */
+  type: "error";
+  /**
+   * id of the build request
+   */
+  id: number;
+  /**
+   * reason of the failure
+   */
+  message: string;
+  /**
+   * kind of failure
+   */
+  code: NavMeshBuildErrorCode;
+  /**
+   * stage that failed
+   */
+  stage: NavMeshBuildErrorStage;
+  /**
+   * messages logged by Recast until the failure
+   */
+  logs: INavMeshBuildLogMessage[];
+}
+
+/**
+ * Messages sent by the worker to the plugin
+ */
+export type NavMeshWorkerResponse = INavMeshWorkerProgressResponse | INavMeshWorkerResultResponse | INavMeshWorkerErrorResponse;